@@ -8,6 +8,9 @@ except ImportError:
     warnings.warn("Importing 'jupyterlab_blockly' outside a proper installation.")
     __version__ = "dev"
 
+from .editor import BlocklyEditor  # noqa: F401
+from .widget import BlocklyWidget  # noqa: F401
+
 
 def _jupyter_labextension_paths():
     return [{
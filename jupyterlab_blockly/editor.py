@@ -0,0 +1,74 @@
+from comm import create_comm
+
+COMM_TARGET = "jupyterlab-blockly"
+
+
+class BlocklyEditor:
+    """The Blockly editor running the code of the kernel.
+
+    The blocks and toolboxes are registered globally: they are available in
+    every Blockly editor of JupyterLab, like the ones of the extensions, and
+    replace the ones with the same names. The other requests only edit the
+    workspace of this editor::
+
+        from jupyterlab_blockly import BlocklyEditor
+
+        editor = BlocklyEditor()
+        editor.register_blocks([{
+            "type": "say",
+            "message0": "say %1",
+            "args0": [{"type": "input_value", "name": "TEXT"}],
+            "previousStatement": None,
+            "nextStatement": None,
+            "templates": {"python": "print({{TEXT}})"},
+        }])
+        editor.register_toolbox("say", {
+            "kind": "flyoutToolbox",
+            "contents": [{"kind": "block", "type": "say"}],
+        }, select=True)
+        editor.add_block({"type": "say"})
+
+    The editor replies to each request with ``{"status": "ok"}`` or with
+    ``{"status": "error", "message": ...}``, kept in ``last_reply``.
+    """
+
+    def __init__(self):
+        self.last_reply = None
+        self._comm = create_comm(target_name=COMM_TARGET)
+        self._comm.on_msg(self._on_msg)
+
+    def register_blocks(self, blocks):
+        """Register block definitions, with their code templates, in every editor."""
+        self._send("register_blocks", blocks=blocks)
+
+    def register_toolbox(self, name, toolbox, select=False):
+        """Register a toolbox in every editor.
+
+        It is selected in this editor if ``select`` is true.
+        """
+        self._send("register_toolbox", name=name, toolbox=toolbox, select=select)
+
+    def add_block(self, block):
+        """Add a block serialized by Blockly to the workspace.
+
+        Without ``x`` and ``y`` coordinates, it is added under the other blocks.
+        Out of authoring mode, the block cannot be locked.
+        """
+        self._send("add_block", block=block)
+
+    def load_workspace(self, workspace):
+        """Replace the blocks with a workspace serialized by Blockly.
+
+        Out of authoring mode, the workspace cannot have locked blocks.
+        """
+        self._send("load_workspace", workspace=workspace)
+
+    def close(self):
+        """Close the connection with the editor."""
+        self._comm.close()
+
+    def _send(self, action, **data):
+        self._comm.send({"action": action, **data})
+
+    def _on_msg(self, msg):
+        self.last_reply = msg["content"]["data"]
@@ -0,0 +1,58 @@
+import json
+from pathlib import Path
+
+from ipywidgets import DOMWidget
+from traitlets import Dict, Unicode
+
+from . import __version__
+
+
+def _get_module_version():
+    """Get the version of the module of the widgets, from the built extension.
+
+    The extension declares the same version, so the two cannot drift apart.
+    """
+    path = Path(__file__).parent / "labextension" / "package.json"
+    try:
+        version = json.loads(path.read_text())["version"]
+    except (OSError, ValueError, KeyError):
+        # The extension is not built, e.g. in development
+        version = __version__
+    return f"^{version}"
+
+
+MODULE_NAME = "jupyterlab-blockly-extension"
+MODULE_VERSION = _get_module_version()
+
+
+class BlocklyWidget(DOMWidget):
+    """A Blockly workspace embedded in a notebook.
+
+    The workspace is serialized by Blockly in ``workspace``, and the code
+    generated from its blocks in ``language`` is available in ``code``.
+    Both are updated when the blocks change, and can be observed::
+
+        from jupyterlab_blockly import BlocklyWidget
+
+        blocks = BlocklyWidget(toolbox="default")
+        blocks.observe(lambda change: print(change["new"]), names="code")
+        blocks
+    """
+
+    _model_name = Unicode("BlocklyWidgetModel").tag(sync=True)
+    _model_module = Unicode(MODULE_NAME).tag(sync=True)
+    _model_module_version = Unicode(MODULE_VERSION).tag(sync=True)
+    _view_name = Unicode("BlocklyWidgetView").tag(sync=True)
+    _view_module = Unicode(MODULE_NAME).tag(sync=True)
+    _view_module_version = Unicode(MODULE_VERSION).tag(sync=True)
+
+    workspace = Dict(help="The workspace serialized by Blockly.").tag(sync=True)
+    code = Unicode(
+        read_only=True, help="The code generated from the blocks."
+    ).tag(sync=True)
+    language = Unicode(
+        "python", help="The language of the generated code."
+    ).tag(sync=True)
+    toolbox = Unicode(
+        "default", help="The name of the toolbox of the workspace."
+    ).tag(sync=True)
@@ -3,7 +3,17 @@ import {
   JupyterFrontEndPlugin,
   ILayoutRestorer
 } from '@jupyterlab/application';
-import { jsonIcon } from '@jupyterlab/ui-components';
+import {
+  CommandToolbarButton,
+  copyIcon,
+  cutIcon,
+  imageIcon,
+  jsonIcon,
+  notebookIcon,
+  pasteIcon,
+  redoIcon,
+  undoIcon
+} from '@jupyterlab/ui-components';
 import { WidgetTracker, ICommandPalette } from '@jupyterlab/apputils';
 import { IRenderMimeRegistry } from '@jupyterlab/rendermime';
 import { IEditorServices } from '@jupyterlab/codeeditor';
@@ -13,6 +23,8 @@ import { ILauncher } from '@jupyterlab/launcher';
 import { ITranslator } from '@jupyterlab/translation';
 import { ISettingRegistry } from '@jupyterlab/settingregistry';
 import { IMainMenu } from '@jupyterlab/mainmenu';
+import { PathExt } from '@jupyterlab/coreutils';
+import { ServerConnection } from '@jupyterlab/services';
 import { ReadonlyPartialJSONObject } from '@lumino/coreutils';
 
 import { IJupyterWidgetRegistry } from '@jupyter-widgets/base';
@@ -23,10 +35,20 @@ import {
 } from '@jupyter-widgets/jupyterlab-manager';
 
 import { BlocklyEditorFactory } from 'jupyterlab-blockly';
+import { blocklyRendererFactory } from 'jupyterlab-blockly';
 import { IBlocklyRegistry } from 'jupyterlab-blockly';
 import { BlocklyEditor } from 'jupyterlab-blockly';
+import { BlocklyLayout } from 'jupyterlab-blockly';
+import { ExerciseSettings } from 'jupyterlab-blockly';
 
 import { blockly_icon } from './icons';
+import {
+  BlocklyWidgetModel,
+  BlocklyWidgetView,
+  MODULE_NAME,
+  MODULE_VERSION
+} from './ipywidget';
+import { toolboxesPlugin } from './toolboxes';
 
 /**
  * The name of the factory that creates the editor widgets.
@@ -37,6 +59,15 @@ const PALETTE_CATEGORY = 'Blockly editor';
 
 namespace CommandIDs {
   export const createNew = 'blockly:create-new-blockly-file';
+  export const exportToNotebook = 'blockly:export-to-notebook';
+  export const exportSvg = 'blockly:export-svg';
+  export const exportPng = 'blockly:export-png';
+  export const undo = 'blockly:undo';
+  export const redo = 'blockly:redo';
+  export const copy = 'blockly:copy';
+  export const paste = 'blockly:paste';
+  export const deleteBlock = 'blockly:delete';
+  export const toggleReadOnly = 'blockly:toggle-read-only';
   export const interruptKernel = 'blockly:interrupt-kernel';
   export const reconnectToKernel = 'blockly:reconnect-to-kernel';
   export const shutdownKernel = 'blockly:shutdown-kernel';
@@ -48,6 +79,11 @@ namespace CommandIDs {
  */
 const PLUGIN_ID = '@jupyterlab/translation-extension:plugin';
 
+/**
+ * The id of the settings of the Blockly editor.
+ */
+const EDITOR_SETTINGS_ID = 'jupyterlab-blockly-extension:editor';
+
 /**
  * Initialization data for the jupyterlab-blocky extension.
  */
@@ -95,6 +131,19 @@ const plugin: JupyterFrontEndPlugin<IBlocklyRegistry> = {
       });
     }
 
+    // The side panel editing the exercise settings of the current editor
+    const exerciseSettings = new ExerciseSettings(rendermime);
+    exerciseSettings.id = 'jp-blockly-exercise-settings';
+    exerciseSettings.title.icon = blockly_icon;
+    exerciseSettings.title.caption = 'Exercise Settings';
+    app.shell.add(exerciseSettings, 'right', { rank: 900 });
+    if (restorer) {
+      restorer.add(exerciseSettings, exerciseSettings.id);
+    }
+    tracker.currentChanged.connect((sender, widget) => {
+      exerciseSettings.editor = widget;
+    });
+
     const { commands } = app;
 
     // Creating the widget factory to register it so the document manager knows about
@@ -130,6 +179,17 @@ const plugin: JupyterFrontEndPlugin<IBlocklyRegistry> = {
       // Adding the Blockly icon for the widget so it appears next to the file name.
       widget.title.icon = blockly_icon;
 
+      // Add a button to export the document to a notebook next to the run button.
+      widget.toolbar.insertAfter(
+        'run',
+        'export',
+        new CommandToolbarButton({
+          commands,
+          id: CommandIDs.exportToNotebook,
+          label: ''
+        })
+      );
+
       // Notify the instance tracker if restore data needs to update.
       widget.context.pathChanged.connect(() => {
         tracker.save(widget);
@@ -150,6 +210,10 @@ const plugin: JupyterFrontEndPlugin<IBlocklyRegistry> = {
     // Registering the widget factory
     app.docRegistry.addWidgetFactory(widgetFactory);
 
+    // Render the Blockly workspaces displayed in the outputs, with the
+    // blocks of the registry. The notebooks opened later copy the factory.
+    rendermime.addFactory(blocklyRendererFactory);
+
     function getSetting(setting: ISettingRegistry.ISettings): string {
       // Read the settings and convert to the correct type
       const currentLocale: string = setting.get('locale').composite as string;
@@ -178,6 +242,28 @@ const plugin: JupyterFrontEndPlugin<IBlocklyRegistry> = {
       widgetFactory.registry.setlanguage(language);
     });
 
+    // Apply the settings of the editor to the new and the open editors
+    const updateEditorSettings = (setting: ISettingRegistry.ISettings) => {
+      const clearOutputsOnSave = setting.get('clearOutputsOnSave')
+        .composite as boolean;
+      const authoring = setting.get('authoring').composite as boolean;
+      widgetFactory.clearOutputsOnSave = clearOutputsOnSave;
+      widgetFactory.authoring = authoring;
+      tracker.forEach(widget => {
+        widget.content.clearOutputsOnSave = clearOutputsOnSave;
+        widget.content.manager.setAuthoring(authoring);
+      });
+    };
+    settings
+      .load(EDITOR_SETTINGS_ID)
+      .then(setting => {
+        updateEditorSettings(setting);
+        setting.changed.connect(updateEditorSettings);
+      })
+      .catch(reason => {
+        console.error('Failed to load the Blockly editor settings', reason);
+      });
+
     commands.addCommand(CommandIDs.createNew, {
       label: args =>
         args['isPalette'] ? 'New Blockly Editor' : 'Blockly Editor',
@@ -220,6 +306,22 @@ const plugin: JupyterFrontEndPlugin<IBlocklyRegistry> = {
         args: { isPalette: true },
         category: PALETTE_CATEGORY
       });
+      palette.addItem({
+        command: CommandIDs.exportToNotebook,
+        category: PALETTE_CATEGORY
+      });
+      palette.addItem({
+        command: CommandIDs.toggleReadOnly,
+        category: PALETTE_CATEGORY
+      });
+      [CommandIDs.exportSvg, CommandIDs.exportPng].forEach(command => {
+        palette.addItem({ command, category: PALETTE_CATEGORY });
+        palette.addItem({
+          command,
+          args: { stack: true },
+          category: PALETTE_CATEGORY
+        });
+      });
     }
 
     /**
@@ -232,6 +334,13 @@ const plugin: JupyterFrontEndPlugin<IBlocklyRegistry> = {
       );
     }
 
+    // Whether the exercise settings of the current widget can be edited
+    function isAuthoring(): boolean {
+      return (
+        isEnabled() && tracker.currentWidget.content.manager.getAuthoring()
+      );
+    }
+
     // Get the current widget and activate unless the args specify otherwise.
     function getCurrent(args: ReadonlyPartialJSONObject): BlocklyEditor | null {
       const widget = tracker.currentWidget;
@@ -242,6 +351,208 @@ const plugin: JupyterFrontEndPlugin<IBlocklyRegistry> = {
       return widget ?? null;
     }
 
+    // Whether a file exists, letting the errors other than "not found" through.
+    async function exists(path: string): Promise<boolean> {
+      try {
+        await app.serviceManager.contents.get(path, { content: false });
+        return true;
+      } catch (reason) {
+        if (
+          reason instanceof ServerConnection.ResponseError &&
+          reason.response.status === 404
+        ) {
+          return false;
+        }
+        throw reason;
+      }
+    }
+
+    commands.addCommand(CommandIDs.exportToNotebook, {
+      label: 'Export to Notebook',
+      caption: 'Export the Blockly document to a notebook',
+      icon: notebookIcon,
+      execute: async args => {
+        const current = getCurrent(args);
+        if (!current) {
+          return;
+        }
+        const { contents } = app.serviceManager;
+        const content = current.content.toNotebook();
+
+        // Save the notebook next to the Blockly file, without overwriting
+        // an existing notebook with the same name.
+        const dir = PathExt.dirname(current.context.path);
+        const name = PathExt.basename(
+          current.context.path,
+          PathExt.extname(current.context.path)
+        );
+        let path = PathExt.join(dir, `${name}.ipynb`);
+        for (let i = 1; await exists(path); i++) {
+          path = PathExt.join(dir, `${name}-${i}.ipynb`);
+        }
+        await contents.save(path, {
+          type: 'notebook',
+          format: 'json',
+          content
+        });
+
+        return commands.execute('docmanager:open', { path });
+      },
+      isEnabled
+    });
+
+    // Get the layout of the current widget.
+    function getLayout(): BlocklyLayout | null {
+      if (!isEnabled()) {
+        return null;
+      }
+      return tracker.currentWidget.content.layout as BlocklyLayout;
+    }
+
+    /**
+     * Save an image of the blocks of the current editor next to its file,
+     * replacing the previous export.
+     */
+    async function exportImage(
+      args: ReadonlyPartialJSONObject,
+      format: 'svg' | 'png'
+    ): Promise<void> {
+      const layout = getLayout();
+      if (!layout) {
+        return;
+      }
+      const stack = !!args['stack'];
+      const content =
+        format === 'svg' ? layout.toSvg(stack) : await layout.toPng(stack);
+      if (content === null) {
+        return;
+      }
+
+      const path = tracker.currentWidget.context.path;
+      const name = PathExt.basename(path, PathExt.extname(path));
+      const imagePath = PathExt.join(
+        PathExt.dirname(path),
+        `${name}${stack ? '-stack' : ''}.${format}`
+      );
+      await app.serviceManager.contents.save(imagePath, {
+        type: 'file',
+        format: format === 'svg' ? 'text' : 'base64',
+        content
+      });
+    }
+
+    commands.addCommand(CommandIDs.exportSvg, {
+      label: args =>
+        args['stack'] ? 'Export Selected Stack as SVG' : 'Export Blocks as SVG',
+      caption: 'Save an SVG image of the blocks next to the Blockly file',
+      icon: imageIcon,
+      execute: args => exportImage(args, 'svg'),
+      isEnabled: args =>
+        args['stack'] ? !!getLayout()?.hasSelection() : isEnabled()
+    });
+
+    commands.addCommand(CommandIDs.exportPng, {
+      label: args =>
+        args['stack'] ? 'Export Selected Stack as PNG' : 'Export Blocks as PNG',
+      caption: 'Save a PNG image of the blocks next to the Blockly file',
+      icon: imageIcon,
+      execute: args => exportImage(args, 'png'),
+      isEnabled: args =>
+        args['stack'] ? !!getLayout()?.hasSelection() : isEnabled()
+    });
+
+    // Register editing commands.
+    commands.addCommand(CommandIDs.undo, {
+      label: 'Undo',
+      caption: 'Undo the last change of the blocks',
+      icon: undoIcon,
+      execute: () => getLayout()?.undo(),
+      isEnabled: () => !!getLayout()?.canUndo()
+    });
+
+    commands.addCommand(CommandIDs.redo, {
+      label: 'Redo',
+      caption: 'Redo the last undone change of the blocks',
+      icon: redoIcon,
+      execute: () => getLayout()?.redo(),
+      isEnabled: () => !!getLayout()?.canRedo()
+    });
+
+    commands.addCommand(CommandIDs.copy, {
+      label: 'Copy Block',
+      caption: 'Copy the selected block',
+      icon: copyIcon,
+      execute: () => getLayout()?.copy(),
+      isEnabled: () => !!getLayout()?.hasSelection()
+    });
+
+    commands.addCommand(CommandIDs.paste, {
+      label: 'Paste Block',
+      caption: 'Paste the copied block',
+      icon: pasteIcon,
+      execute: () => getLayout()?.paste(),
+      isEnabled: () => !!getLayout()?.canPaste()
+    });
+
+    commands.addCommand(CommandIDs.deleteBlock, {
+      label: 'Delete Block',
+      caption: 'Delete the selected block',
+      icon: cutIcon,
+      execute: () => getLayout()?.deleteSelected(),
+      isEnabled: () => !!getLayout()?.hasSelection()
+    });
+
+    commands.addCommand(CommandIDs.toggleReadOnly, {
+      label: 'Read-Only Blocks',
+      caption: 'Prevent adding, removing or editing the blocks of the document',
+      execute: () => {
+        const widget = tracker.currentWidget;
+        if (widget) {
+          const manager = widget.content.manager;
+          manager.setReadOnly(!manager.getReadOnly());
+          widget.context.model.dirty = true;
+        }
+      },
+      // The students cannot make an exercise editable
+      isEnabled: isAuthoring,
+      isVisible: isAuthoring,
+      isToggled: () => !!tracker.currentWidget?.content.manager.getReadOnly()
+    });
+
+    // The workspace takes the focus when clicked, the inputs of the editor
+    // keep their own shortcuts
+    const selector = '.jp-BlocklyPanel .injectionDiv:focus';
+    commands.addKeyBinding({
+      command: CommandIDs.undo,
+      keys: ['Accel Z'],
+      selector
+    });
+    commands.addKeyBinding({
+      command: CommandIDs.redo,
+      keys: ['Accel Shift Z'],
+      selector
+    });
+    commands.addKeyBinding({
+      command: CommandIDs.copy,
+      keys: ['Accel C'],
+      selector
+    });
+    commands.addKeyBinding({
+      command: CommandIDs.paste,
+      keys: ['Accel V'],
+      selector
+    });
+    commands.addKeyBinding({
+      command: CommandIDs.deleteBlock,
+      keys: ['Delete'],
+      selector
+    });
+    commands.addKeyBinding({
+      command: CommandIDs.deleteBlock,
+      keys: ['Backspace'],
+      selector
+    });
+
     // Register kernel commands.
     commands.addCommand(CommandIDs.interruptKernel, {
       label: 'Interrupt Kernel',
@@ -303,6 +614,25 @@ const plugin: JupyterFrontEndPlugin<IBlocklyRegistry> = {
 
     // Add the command to the main menu
     if (mainMenu) {
+      mainMenu.editMenu.undoers.undo.add({
+        id: CommandIDs.undo,
+        isEnabled
+      });
+
+      mainMenu.editMenu.undoers.redo.add({
+        id: CommandIDs.redo,
+        isEnabled
+      });
+
+      mainMenu.editMenu.addGroup(
+        [
+          { command: CommandIDs.copy },
+          { command: CommandIDs.paste },
+          { command: CommandIDs.deleteBlock }
+        ],
+        4
+      );
+
       mainMenu.kernelMenu.kernelUsers.interruptKernel.add({
         id: CommandIDs.interruptKernel,
         isEnabled
@@ -325,6 +655,14 @@ const plugin: JupyterFrontEndPlugin<IBlocklyRegistry> = {
     }
 
     if (widgetRegistry) {
+      // The Blockly workspaces embedded in the notebooks
+      BlocklyWidgetModel.registry = widgetFactory.registry;
+      widgetRegistry.registerWidget({
+        name: MODULE_NAME,
+        version: MODULE_VERSION,
+        exports: { BlocklyWidgetModel, BlocklyWidgetView }
+      });
+
       tracker.forEach(panel => {
         registerWidgetManager(
           panel.context as any,
@@ -354,4 +692,4 @@ function* widgetRenderers(cells: CodeCell[]): IterableIterator<WidgetRenderer> {
   }
 }
 
-export default plugin;
+export default [plugin, toolboxesPlugin];
@@ -0,0 +1,174 @@
+import { DOMWidgetModel, DOMWidgetView } from '@jupyter-widgets/base';
+
+import { Message } from '@lumino/messaging';
+
+import * as Blockly from 'blockly';
+
+import { BlocklyRegistry, THEME } from 'jupyterlab-blockly';
+
+/**
+ * The name of the module of the Blockly widgets.
+ */
+export const MODULE_NAME = 'jupyterlab-blockly-extension';
+
+// The package.json is out of the sources, webpack bundles it
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore
+const data = require('../package.json');
+
+/**
+ * The version of the module of the Blockly widgets: the version of this
+ * package, which the Python package reads from the built extension.
+ */
+export const MODULE_VERSION = `^${data.version}`;
+
+/**
+ * The model of a Blockly workspace embedded in a notebook.
+ *
+ * The workspace is serialized in the `workspace` attribute and its code,
+ * generated in the `language` of the widget, in the `code` attribute.
+ */
+export class BlocklyWidgetModel extends DOMWidgetModel {
+  /**
+   * The registry holding the blocks, the toolboxes and the generators.
+   */
+  static registry: BlocklyRegistry;
+
+  defaults() {
+    return {
+      ...super.defaults(),
+      _model_name: 'BlocklyWidgetModel',
+      _model_module: MODULE_NAME,
+      _model_module_version: MODULE_VERSION,
+      _view_name: 'BlocklyWidgetView',
+      _view_module: MODULE_NAME,
+      _view_module_version: MODULE_VERSION,
+      workspace: {},
+      code: '',
+      language: 'python',
+      toolbox: 'default'
+    };
+  }
+}
+
+/**
+ * The view of a Blockly workspace embedded in a notebook.
+ */
+export class BlocklyWidgetView extends DOMWidgetView {
+  private _workspace: Blockly.WorkspaceSvg | null = null;
+  private _saving = false;
+
+  /**
+   * Render the view, the workspace is injected once it is attached.
+   */
+  render(): void {
+    this.el.classList.add('jp-blockly-widget');
+    this.listenTo(this.model, 'change:workspace', this._onWorkspaceChanged);
+    this.listenTo(this.model, 'change:toolbox', this._onToolboxChanged);
+    this.listenTo(this.model, 'change:language', this._save);
+  }
+
+  /**
+   * Handle the messages of the Lumino widget of the view.
+   */
+  processLuminoMessage(msg: Message): void {
+    super.processLuminoMessage(msg);
+    switch (msg.type) {
+      case 'after-attach':
+        if (!this._workspace) {
+          this._inject();
+        }
+        break;
+      case 'resize':
+        if (this._workspace) {
+          Blockly.svgResize(this._workspace);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Remove the view.
+   */
+  remove(): this {
+    this._workspace?.dispose();
+    this._workspace = null;
+    return super.remove();
+  }
+
+  /**
+   * Inject Blockly in the view, in an element of the document.
+   */
+  private _inject(): void {
+    this._workspace = Blockly.inject(this.el, {
+      toolbox: this._getToolbox(),
+      theme: THEME
+    });
+    this._load();
+    this._workspace.addChangeListener((event: Blockly.Events.Abstract) => {
+      if (!event.isUiEvent) {
+        this._save();
+      }
+    });
+    // Share the code generated from the initial workspace
+    this._save();
+  }
+
+  /**
+   * Load the workspace of the model.
+   */
+  private _load(): void {
+    Blockly.Events.disable();
+    try {
+      Blockly.serialization.workspaces.load(
+        this.model.get('workspace') ?? {},
+        this._workspace
+      );
+    } finally {
+      Blockly.Events.enable();
+    }
+  }
+
+  /**
+   * Save the workspace and its code in the model, to share them with
+   * the kernel.
+   */
+  private _save(): void {
+    if (!this._workspace) {
+      return;
+    }
+    const code =
+      BlocklyWidgetModel.registry.generateCode(
+        this._workspace,
+        this.model.get('language')
+      ) ?? '';
+
+    this._saving = true;
+    try {
+      this.model.set({
+        workspace: Blockly.serialization.workspaces.save(this._workspace),
+        code
+      });
+      this.touch();
+    } finally {
+      this._saving = false;
+    }
+  }
+
+  private _getToolbox(): Blockly.utils.toolbox.ToolboxDefinition {
+    const toolboxes = BlocklyWidgetModel.registry.toolboxes;
+    return toolboxes.get(this.model.get('toolbox')) ?? toolboxes.get('default');
+  }
+
+  private _onWorkspaceChanged(): void {
+    // Reload the workspace only when the kernel sets it
+    if (this._workspace && !this._saving) {
+      this._load();
+      this._save();
+    }
+  }
+
+  private _onToolboxChanged(): void {
+    this._workspace?.updateToolbox(this._getToolbox());
+  }
+}
@@ -0,0 +1,276 @@
+import {
+  JupyterFrontEnd,
+  JupyterFrontEndPlugin
+} from '@jupyterlab/application';
+import { PathExt } from '@jupyterlab/coreutils';
+import { Contents } from '@jupyterlab/services';
+import { ISettingRegistry } from '@jupyterlab/settingregistry';
+import { jsonIcon } from '@jupyterlab/ui-components';
+
+import type { BlockDefinition } from 'blockly/core/blocks';
+import type { ToolboxDefinition } from 'blockly/core/utils/toolbox';
+
+import { IBlocklyRegistry } from 'jupyterlab-blockly';
+
+/**
+ * The extension of the toolbox files.
+ */
+const TOOLBOX_EXTENSION = '.jpblockly-toolbox';
+
+/**
+ * Loads the toolboxes and blocks defined in JSON in the settings and in the
+ * `.jpblockly-toolbox` files on the server, and registers them with the
+ * Blockly registry at startup and when they change.
+ */
+export const toolboxesPlugin: JupyterFrontEndPlugin<void> = {
+  id: 'jupyterlab-blockly-extension:toolboxes',
+  autoStart: true,
+  requires: [IBlocklyRegistry, ISettingRegistry],
+  activate: (
+    app: JupyterFrontEnd,
+    registry: IBlocklyRegistry,
+    settingRegistry: ISettingRegistry
+  ): void => {
+    const { contents } = app.serviceManager;
+
+    // Registering the file type so toolbox files open as JSON
+    app.docRegistry.addFileType({
+      name: 'blockly-toolbox',
+      displayName: 'Blockly Toolbox',
+      contentType: 'file',
+      fileFormat: 'text',
+      extensions: [TOOLBOX_EXTENSION],
+      mimeTypes: ['application/json'],
+      icon: jsonIcon
+    });
+
+    // The directory of the toolbox files or null if disabled
+    let directory: string | null = null;
+
+    // The toolboxes and blocks registered from the settings and the files
+    let settingsRegistered = Private.createRegistered();
+    let filesRegistered = Private.createRegistered();
+
+    // Unregister the toolboxes and blocks which are no longer defined
+    const unregister = (previous: Private.IRegistered): void => {
+      const isDefined = (key: keyof Private.IRegistered, name: string) =>
+        settingsRegistered[key].has(name) || filesRegistered[key].has(name);
+      previous.toolboxes.forEach(name => {
+        if (!isDefined('toolboxes', name)) {
+          registry.unregisterToolbox(name);
+        }
+      });
+      previous.blocks.forEach(type => {
+        if (!isDefined('blocks', type)) {
+          registry.unregisterBlock(type);
+        }
+      });
+    };
+
+    const loadSettings = (settings: ISettingRegistry.ISettings): void => {
+      const previous = settingsRegistered;
+      settingsRegistered = Private.register(registry, [
+        {
+          source: 'the settings',
+          toolboxes: settings.composite['toolboxes'] as Private.Toolboxes,
+          blocks: settings.composite['blocks'] as Private.Blocks
+        }
+      ]);
+      unregister(previous);
+
+      const toolboxDirectory = settings.composite['toolboxDirectory'] as
+        | string
+        | null;
+      if (toolboxDirectory !== directory) {
+        directory = toolboxDirectory;
+        void loadFiles();
+      }
+    };
+
+    // The number of loads of the files, only the last one is registered
+    let filesLoads = 0;
+
+    const loadFiles = async (): Promise<void> => {
+      const load = ++filesLoads;
+      const definitions = await Private.readFiles(contents, directory);
+      if (load !== filesLoads) {
+        // The directory or the files changed during the load
+        return;
+      }
+      const previous = filesRegistered;
+      filesRegistered = Private.register(registry, definitions);
+      unregister(previous);
+    };
+
+    // Reload the toolbox files when one of them changes
+    contents.fileChanged.connect((sender, change) => {
+      const paths = [change.oldValue?.path, change.newValue?.path];
+      if (
+        directory !== null &&
+        paths.some(
+          path =>
+            path &&
+            Private.isToolboxFile(path) &&
+            PathExt.dirname(path) === PathExt.normalize(directory)
+        )
+      ) {
+        void loadFiles();
+      }
+    });
+
+    settingRegistry
+      .load(toolboxesPlugin.id)
+      .then(settings => {
+        loadSettings(settings);
+        settings.changed.connect(loadSettings);
+      })
+      .catch(reason => {
+        console.error('Failed to load the Blockly toolboxes settings', reason);
+      });
+  }
+};
+
+namespace Private {
+  /**
+   * The toolboxes definitions by name.
+   */
+  export type Toolboxes = { [name: string]: ToolboxDefinition };
+
+  /**
+   * The JSON blocks definitions.
+   */
+  export type Blocks = BlockDefinition[];
+
+  /**
+   * The definitions in the settings or in a toolbox file.
+   */
+  export interface IDefinitions {
+    /**
+     * The settings or the path of the file, to report the errors.
+     */
+    source: string;
+    toolboxes?: Toolboxes;
+    blocks?: Blocks;
+  }
+
+  /**
+   * The names of the registered toolboxes and the types of the registered
+   * blocks.
+   */
+  export interface IRegistered {
+    toolboxes: Set<string>;
+    blocks: Set<string>;
+  }
+
+  /**
+   * Create an empty set of registered toolboxes and blocks.
+   */
+  export function createRegistered(): IRegistered {
+    return { toolboxes: new Set<string>(), blocks: new Set<string>() };
+  }
+
+  /**
+   * Whether a path is a toolbox file.
+   */
+  export function isToolboxFile(path: string): boolean {
+    return PathExt.extname(path) === TOOLBOX_EXTENSION;
+  }
+
+  /**
+   * List the toolbox files in a directory.
+   *
+   * @param directory The directory or null if the files are disabled.
+   */
+  export async function listFiles(
+    contents: Contents.IManager,
+    directory: string | null
+  ): Promise<Contents.IModel[]> {
+    if (directory === null) {
+      return [];
+    }
+    try {
+      const model = await contents.get(directory, { content: true });
+      return (model.content as Contents.IModel[]).filter(item =>
+        isToolboxFile(item.path)
+      );
+    } catch (reason) {
+      console.warn(`Cannot list the Blockly toolbox files: ${reason}`);
+      return [];
+    }
+  }
+
+  /**
+   * Read the definitions of the toolbox files in a directory.
+   *
+   * @param directory The directory or null if the files are disabled.
+   */
+  export async function readFiles(
+    contents: Contents.IManager,
+    directory: string | null
+  ): Promise<IDefinitions[]> {
+    const list: IDefinitions[] = [];
+    for (const file of await listFiles(contents, directory)) {
+      try {
+        const content = await contents.get(file.path, {
+          content: true,
+          format: 'text',
+          type: 'file'
+        });
+        const definitions = JSON.parse(content.content);
+        // A file can contain a single toolbox named after the file
+        if ('kind' in definitions) {
+          const name = PathExt.basename(file.path, TOOLBOX_EXTENSION);
+          list.push({ source: file.path, toolboxes: { [name]: definitions } });
+        } else {
+          list.push({ ...definitions, source: file.path });
+        }
+      } catch (reason) {
+        console.warn(`Cannot load the Blockly toolbox ${file.path}`, reason);
+      }
+    }
+    return list;
+  }
+
+  /**
+   * Register the blocks and toolboxes definitions.
+   *
+   * The blocks are registered first since the toolboxes use them. The
+   * invalid definitions are reported and skipped.
+   *
+   * @returns The registered toolboxes and blocks.
+   */
+  export function register(
+    registry: IBlocklyRegistry,
+    list: IDefinitions[]
+  ): IRegistered {
+    const registered = createRegistered();
+    list.forEach(definitions => {
+      if (!definitions.blocks?.length) {
+        return;
+      }
+      try {
+        registry.registerBlocks(definitions.blocks);
+        definitions.blocks.forEach(block => registered.blocks.add(block.type));
+      } catch (reason) {
+        console.warn(
+          `Cannot register the Blockly blocks of ${definitions.source}`,
+          reason
+        );
+      }
+    });
+    list.forEach(definitions => {
+      Object.entries(definitions.toolboxes ?? {}).forEach(([name, toolbox]) => {
+        try {
+          registry.registerToolbox(name, toolbox);
+          registered.toolboxes.add(name);
+        } catch (reason) {
+          console.warn(
+            `Cannot register the Blockly toolbox ${name} of ${definitions.source}`,
+            reason
+          );
+        }
+      });
+    });
+    return registered;
+  }
+}
@@ -0,0 +1,7 @@
+module.exports = {
+  testEnvironment: 'node',
+  testRegex: 'src/__tests__/.*\\.spec\\.ts$',
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: 'tsconfig.test.json' }]
+  }
+};
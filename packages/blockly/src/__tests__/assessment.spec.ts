@@ -0,0 +1,164 @@
+/**
+ * @jest-environment jsdom
+ */
+import { Kernel } from '@jupyterlab/services';
+
+import { Assessment, TestResults } from '../assessment';
+
+// The messages of the kernel are told apart by their type
+jest.mock('@jupyterlab/services', () => ({
+  KernelMessage: {
+    isErrorMsg: (msg: any) => msg.header.msg_type === 'error',
+    isStreamMsg: (msg: any) => msg.header.msg_type === 'stream'
+  }
+}));
+// jsdom has no drag events, the widgets are not dragged in these tests
+jest.mock('@lumino/dragdrop', () => ({ Drag: class {} }));
+
+describe('Assessment', () => {
+  // The reply of the kernel to the code of a test.
+  interface IReply {
+    messages?: any[];
+    status?: string;
+    reason?: Error;
+  }
+
+  let requests: any[];
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  // Create a kernel replying to the code of the tests.
+  function createKernel(replies: {
+    [code: string]: IReply;
+  }): Kernel.IKernelConnection {
+    return {
+      requestExecute: (content: any) => {
+        requests.push(content);
+        const { messages = [], status = 'ok', reason } = replies[content.code];
+        const future: any = {};
+        // The messages are handled once the future is returned
+        future.done = Promise.resolve().then(() => {
+          messages.forEach(msg => future.onIOPub(msg));
+          if (reason) {
+            throw reason;
+          }
+          return { content: { status } };
+        });
+        return future;
+      }
+    } as unknown as Kernel.IKernelConnection;
+  }
+
+  function stream(text: string) {
+    return {
+      header: { msg_type: 'stream' },
+      content: { name: 'stdout', text }
+    };
+  }
+
+  function error(ename: string, evalue: string) {
+    return {
+      header: { msg_type: 'error' },
+      content: { ename, evalue, traceback: [] }
+    };
+  }
+
+  describe('runTests', () => {
+    it('should run the tests in order without storing them', async () => {
+      const kernel = createKernel({ first: {}, second: {} });
+      await Assessment.runTests(kernel, [
+        { name: 'First', code: 'first' },
+        { name: 'Second', code: 'second' }
+      ]);
+      expect(requests).toEqual([
+        { code: 'first', store_history: false, stop_on_error: false },
+        { code: 'second', store_history: false, stop_on_error: false }
+      ]);
+    });
+
+    it('should pass the tests with the text they print', async () => {
+      const kernel = createKernel({
+        test: { messages: [stream('5 '), stream('apples\n')] }
+      });
+      expect(
+        await Assessment.runTests(kernel, [{ name: 'Count', code: 'test' }])
+      ).toEqual([{ name: 'Count', passed: true, message: '5 apples\n' }]);
+    });
+
+    it('should fail the tests raising an error', async () => {
+      const kernel = createKernel({
+        assertion: {
+          messages: [stream('checking\n'), error('AssertionError', 'wrong')],
+          status: 'error'
+        },
+        bare: { messages: [error('AssertionError', '')], status: 'error' }
+      });
+      expect(
+        await Assessment.runTests(kernel, [
+          { name: 'Assertion', code: 'assertion' },
+          { name: 'Bare', code: 'bare' }
+        ])
+      ).toEqual([
+        { name: 'Assertion', passed: false, message: 'AssertionError: wrong' },
+        { name: 'Bare', passed: false, message: 'AssertionError' }
+      ]);
+    });
+
+    it('should fail the aborted tests and keep running the others', async () => {
+      const kernel = createKernel({
+        aborted: { status: 'abort' },
+        disconnected: { reason: new Error('Kernel is dead') },
+        next: {}
+      });
+      expect(
+        await Assessment.runTests(kernel, [
+          { name: 'Aborted', code: 'aborted' },
+          { name: 'Disconnected', code: 'disconnected' },
+          { name: 'Next', code: 'next' }
+        ])
+      ).toEqual([
+        { name: 'Aborted', passed: false, message: 'The test was aborted' },
+        {
+          name: 'Disconnected',
+          passed: false,
+          message: 'Error: Kernel is dead'
+        },
+        { name: 'Next', passed: true, message: '' }
+      ]);
+    });
+  });
+
+  describe('TestResults', () => {
+    it('should show the results of the tests', () => {
+      const widget = new TestResults();
+      expect(widget.isHidden).toBe(true);
+
+      widget.setResults([
+        { name: 'Count', passed: true, message: '' },
+        { name: 'Total', passed: false, message: 'AssertionError: wrong' }
+      ]);
+      expect(widget.isHidden).toBe(false);
+      expect(
+        widget.node.querySelector('.jp-blockly-testSummary')?.textContent
+      ).toBe('1 of 2 tests passed');
+      expect(
+        widget.node.querySelector('.jp-blockly-testPassed')?.textContent
+      ).toBe('✔ Count');
+      const failed = widget.node.querySelector('.jp-blockly-testFailed');
+      expect(failed?.textContent).toContain('✘ Total');
+      expect(failed?.querySelector('pre')?.textContent).toBe(
+        'AssertionError: wrong'
+      );
+    });
+
+    it('should hide the cleared results', () => {
+      const widget = new TestResults();
+      widget.setResults([{ name: 'Count', passed: true, message: '' }]);
+      widget.setResults(null);
+      expect(widget.isHidden).toBe(true);
+      expect(widget.node.textContent).toBe('');
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { Widget } from '@lumino/widgets';
+
+/**
+ * The code cells of the layouts in the tests, only holding the code and the
+ * outputs, to replace the cells of JupyterLab that jest cannot load.
+ */
+
+class OutputModel {
+  constructor(private _output: any) {}
+  toJSON(): any {
+    return this._output;
+  }
+}
+
+class OutputAreaModel {
+  private _outputs: OutputModel[] = [];
+  get length(): number {
+    return this._outputs.length;
+  }
+  get(index: number): OutputModel {
+    return this._outputs[index];
+  }
+  fromJSON(outputs: any[]): void {
+    this._outputs = outputs.map(output => new OutputModel(output));
+  }
+  toJSON(): any[] {
+    return this._outputs.map(output => output.toJSON());
+  }
+}
+
+export class CodeCellModel {
+  outputs = new OutputAreaModel();
+  mimeType = '';
+  trusted = false;
+  executionCount: number | null = null;
+  private _source = '';
+  sharedModel = {
+    getSource: () => this._source,
+    setSource: (source: string) => (this._source = source)
+  };
+}
+
+export class CodeCell extends Widget {
+  model: CodeCellModel;
+  editor = null;
+  editorWidget = new Widget();
+  readOnly = false;
+  constructor(options: { model: CodeCellModel }) {
+    super();
+    this.model = options.model;
+  }
+  initializeState(): CodeCell {
+    return this;
+  }
+}
+
+export const Cell = { ContentFactory: class {} };
@@ -0,0 +1,162 @@
+import { ISessionContext } from '@jupyterlab/apputils';
+import { Kernel, KernelMessage } from '@jupyterlab/services';
+import { JSONObject } from '@lumino/coreutils';
+
+import { COMM_TARGET, KernelComm } from '../comm';
+import type { BlocklyLayout } from '../layout';
+import type { BlocklyManager } from '../manager';
+
+// The errors are also reported in a dialog
+jest.mock('@jupyterlab/apputils', () => ({ showErrorMessage: jest.fn() }));
+
+describe('KernelComm', () => {
+  let authoring: boolean;
+  let readOnly: boolean;
+  let lockedBlocks: { [id: string]: unknown };
+  let onCommOpen: (comm: Kernel.IComm) => void;
+  let manager: BlocklyManager;
+  let layout: BlocklyLayout;
+  let kernelComm: KernelComm;
+
+  beforeEach(() => {
+    authoring = false;
+    readOnly = false;
+    lockedBlocks = {};
+    const kernel = {
+      registerCommTarget: (
+        target: string,
+        callback: (comm: Kernel.IComm) => void
+      ) => {
+        expect(target).toBe(COMM_TARGET);
+        onCommOpen = callback;
+      },
+      removeCommTarget: () => undefined
+    };
+    const sessionContext = {
+      session: { kernel },
+      kernelChanged: { connect: () => undefined, disconnect: () => undefined }
+    } as unknown as ISessionContext;
+    manager = {
+      registry: {
+        registerBlocks: jest.fn(),
+        registerToolbox: jest.fn()
+      },
+      getAuthoring: () => authoring,
+      setToolbox: jest.fn()
+    } as unknown as BlocklyManager;
+    layout = {
+      addBlock: jest.fn(() => !readOnly),
+      loadWorkspace: jest.fn(() => !readOnly),
+      getLockedBlocks: () => lockedBlocks
+    } as unknown as BlocklyLayout;
+    kernelComm = new KernelComm({ sessionContext, manager, layout });
+  });
+
+  afterEach(() => {
+    kernelComm.dispose();
+  });
+
+  // Send a request through a new comm and return the reply of the editor.
+  function request(data: JSONObject): JSONObject {
+    const comm = {
+      isDisposed: false,
+      send: jest.fn(),
+      onMsg: null
+    } as unknown as Kernel.IComm;
+    onCommOpen(comm);
+    (comm.onMsg as (msg: KernelMessage.ICommMsgMsg) => void)({
+      content: { comm_id: 'comm', data }
+    } as KernelMessage.ICommMsgMsg);
+    return (comm.send as jest.Mock).mock.calls[0][0];
+  }
+
+  const lockedChild = {
+    type: 'text_print',
+    inputs: {
+      TEXT: { block: { type: 'text', movable: false } }
+    }
+  };
+
+  describe('register_toolbox', () => {
+    it('should register and select the toolbox', () => {
+      const toolbox = { kind: 'flyoutToolbox', contents: [] };
+      expect(
+        request({
+          action: 'register_toolbox',
+          name: 'kernel',
+          toolbox,
+          select: true
+        })
+      ).toEqual({ status: 'ok' });
+      expect(manager.registry.registerToolbox).toHaveBeenCalledWith(
+        'kernel',
+        toolbox
+      );
+      expect(manager.setToolbox).toHaveBeenCalledWith('kernel');
+    });
+  });
+
+  describe('add_block', () => {
+    it('should add the unlocked blocks', () => {
+      expect(
+        request({ action: 'add_block', block: { type: 'text_print' } })
+      ).toEqual({ status: 'ok' });
+      expect(layout.addBlock).toHaveBeenCalled();
+    });
+
+    it('should reject the locked children out of authoring mode', () => {
+      expect(request({ action: 'add_block', block: lockedChild })).toEqual({
+        status: 'error',
+        message: 'The locks of the blocks cannot be edited.'
+      });
+      expect(layout.addBlock).not.toHaveBeenCalled();
+    });
+
+    it('should add the locked blocks in authoring mode', () => {
+      authoring = true;
+      expect(request({ action: 'add_block', block: lockedChild })).toEqual({
+        status: 'ok'
+      });
+    });
+
+    it('should report the read-only workspaces', () => {
+      readOnly = true;
+      expect(
+        request({ action: 'add_block', block: { type: 'text_print' } })
+      ).toEqual({ status: 'error', message: 'The workspace is read-only.' });
+    });
+  });
+
+  describe('load_workspace', () => {
+    it('should keep the locked blocks out of authoring mode', () => {
+      lockedBlocks = { block: {} };
+      expect(request({ action: 'load_workspace', workspace: {} })).toEqual({
+        status: 'error',
+        message: 'The workspace has locked blocks.'
+      });
+      expect(layout.loadWorkspace).not.toHaveBeenCalled();
+
+      authoring = true;
+      expect(request({ action: 'load_workspace', workspace: {} })).toEqual({
+        status: 'ok'
+      });
+    });
+  });
+
+  it('should reject the unknown actions', () => {
+    expect(request({ action: 'remove_block' })).toEqual({
+      status: 'error',
+      message: 'Unknown action: remove_block'
+    });
+  });
+
+  it('should report the errors of the requests', () => {
+    (manager.registry.registerBlocks as jest.Mock).mockImplementation(() => {
+      throw new Error('Invalid block');
+    });
+    expect(request({ action: 'register_blocks', blocks: [] })).toEqual({
+      status: 'error',
+      message: 'Invalid block'
+    });
+  });
+});
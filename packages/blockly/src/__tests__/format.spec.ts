@@ -0,0 +1,119 @@
+import { BlocklyFormat } from '../format';
+
+describe('BlocklyFormat', () => {
+  const workspace = {
+    blocks: {
+      languageVersion: 0,
+      blocks: [{ type: 'text_print', id: 'print', x: 10, y: 10 }]
+    },
+    variables: [{ name: 'count', id: 'count' }]
+  };
+
+  describe('getVersion', () => {
+    it('should detect the legacy files holding the workspace', () => {
+      expect(BlocklyFormat.getVersion(workspace)).toBe(1);
+    });
+
+    it('should read the format of the files', () => {
+      expect(BlocklyFormat.getVersion({ format: 2, workspace: {} })).toBe(2);
+    });
+  });
+
+  describe('createEmpty', () => {
+    it('should create a valid file in the current format', () => {
+      const content = BlocklyFormat.createEmpty();
+      expect(content['format']).toBe(BlocklyFormat.currentVersion());
+      expect(() => BlocklyFormat.validate(content)).not.toThrow();
+    });
+  });
+
+  describe('migrate', () => {
+    it('should upgrade the legacy files to the current format', () => {
+      expect(BlocklyFormat.migrate(workspace)).toEqual({
+        format: 3,
+        workspace,
+        metadata: {}
+      });
+    });
+
+    it('should upgrade the metadata of the format 2', () => {
+      const content = BlocklyFormat.migrate({
+        format: 2,
+        workspace,
+        metadata: {
+          description: ['# Exercise\n', 'Print the count.'],
+          toolbox: 'default',
+          kernel: 'No kernel',
+          run_mode: 'stacks'
+        }
+      });
+      expect(content).toEqual({
+        format: 3,
+        workspace,
+        metadata: {
+          description: '# Exercise\nPrint the count.',
+          toolbox: 'default',
+          kernel: null,
+          run_mode: 'stacks'
+        }
+      });
+    });
+
+    it('should keep the files of the current format', () => {
+      const content = {
+        format: 3,
+        workspace,
+        metadata: { kernel: 'python3', read_only: true }
+      };
+      expect(BlocklyFormat.migrate(content)).toEqual(content);
+    });
+
+    it('should reject the invalid files', () => {
+      expect(() =>
+        BlocklyFormat.migrate({
+          format: 3,
+          workspace,
+          metadata: { run_mode: 'cells' }
+        })
+      ).toThrow(BlocklyFormat.ValidationError);
+    });
+
+    it('should reject the invalid files before upgrading them', () => {
+      expect(() =>
+        BlocklyFormat.migrate({ format: 2, workspace: [], metadata: {} })
+      ).toThrow(/Invalid Blockly file format 2/);
+    });
+
+    it('should reject the unknown formats', () => {
+      expect(() => BlocklyFormat.migrate({ format: 99 })).toThrow(
+        "The file format '99' is not supported."
+      );
+      expect(() => BlocklyFormat.migrate({})).toThrow(/is not supported/);
+    });
+  });
+
+  describe('ValidationError', () => {
+    it('should list the paths of the invalid keys', () => {
+      let error: BlocklyFormat.ValidationError | null = null;
+      try {
+        BlocklyFormat.validate({
+          format: 3,
+          workspace,
+          metadata: {
+            read_only: 'yes',
+            locked_blocks: { print: { hidden: true } }
+          }
+        });
+      } catch (reason) {
+        error = reason;
+      }
+      expect(error).toBeInstanceOf(BlocklyFormat.ValidationError);
+      expect(error.version).toBe(3);
+      expect(error.errors.map(e => e.instancePath).sort()).toEqual([
+        '/metadata/locked_blocks/print',
+        '/metadata/read_only'
+      ]);
+      expect(error.message).toContain('/metadata/read_only: must be boolean');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { Headless } from '../headless';
+import { BlocklyRegistry } from '../registry';
+
+describe('Headless', () => {
+  const workspace = {
+    blocks: {
+      languageVersion: 0,
+      blocks: [
+        {
+          type: 'text_print',
+          inputs: {
+            TEXT: { block: { type: 'text', fields: { TEXT: 'hello' } } }
+          }
+        }
+      ]
+    }
+  };
+
+  describe('generateCode', () => {
+    it('should generate the code of the files in Python by default', () => {
+      const content = { format: 3, workspace, metadata: {} };
+      expect(Headless.generateCode(JSON.stringify(content))).toEqual({
+        language: 'python',
+        code: "print('hello')\n"
+      });
+    });
+
+    it('should use the language saved in the file', () => {
+      const content = {
+        format: 3,
+        workspace,
+        metadata: { language: 'javascript', kernel: 'python3' }
+      };
+      expect(Headless.generateCode(content)).toEqual({
+        language: 'javascript',
+        code: "window.alert('hello');\n"
+      });
+    });
+
+    it('should use the language of the kernel of the file', () => {
+      const content = { format: 3, workspace, metadata: { kernel: 'xlua' } };
+      expect(Headless.generateCode(content)).toEqual({
+        language: 'lua',
+        code: "print('hello')\n"
+      });
+    });
+
+    it('should reject the kernels of unknown languages', () => {
+      const content = { format: 3, workspace, metadata: { kernel: 'lua' } };
+      expect(() => Headless.generateCode(content)).toThrow(
+        "The language of the kernel 'lua' is unknown"
+      );
+      expect(Headless.generateCode(content, { language: 'lua' }).language).toBe(
+        'lua'
+      );
+    });
+
+    it('should prefer the language of the options', () => {
+      const content = {
+        format: 3,
+        workspace,
+        metadata: { language: 'javascript' }
+      };
+      expect(
+        Headless.generateCode(content, { language: 'lua' }).code
+      ).toContain("print('hello')");
+    });
+
+    it('should upgrade the legacy files', () => {
+      expect(Headless.generateCode(workspace).code).toBe("print('hello')\n");
+    });
+
+    it('should use the blocks of the registry', () => {
+      const registry = new BlocklyRegistry();
+      registry.registerBlocks([
+        {
+          type: 'test_headless_beep',
+          message0: 'beep',
+          previousStatement: null,
+          nextStatement: null,
+          templates: {
+            python: { code: 'beep()', toplevel_init: 'from sound import beep' }
+          }
+        }
+      ]);
+      const content = {
+        blocks: {
+          languageVersion: 0,
+          blocks: [{ type: 'test_headless_beep' }]
+        }
+      };
+      expect(Headless.generateCode(content, { registry }).code).toBe(
+        'from sound import beep\n\n\nbeep()\n'
+      );
+    });
+
+    it('should reject the languages without a generator', () => {
+      expect(() =>
+        Headless.generateCode(workspace, { language: 'cobol' })
+      ).toThrow("There is no generator for the language 'cobol'.");
+    });
+  });
+});
@@ -0,0 +1,471 @@
+/**
+ * @jest-environment jsdom
+ */
+import { YDocument } from '@jupyter/ydoc';
+import { ISessionContext } from '@jupyterlab/apputils';
+import {
+  IEditorFactoryService,
+  IEditorMimeTypeService
+} from '@jupyterlab/codeeditor';
+import { IRenderMimeRegistry } from '@jupyterlab/rendermime';
+
+import { Signal } from '@lumino/signaling';
+import { SplitPanel, Widget } from '@lumino/widgets';
+
+import * as Blockly from 'blockly';
+import * as Y from 'yjs';
+
+import { BlocklyLayout } from '../layout';
+import { BlocklyManager } from '../manager';
+import { BlocklyRegistry } from '../registry';
+
+jest.mock('@jupyterlab/cells', () => jest.requireActual('./cells'));
+jest.mock('@jupyterlab/codemirror', () => ({ CodeMirrorEditor: class {} }));
+jest.mock('@jupyterlab/outputarea', () => ({ OutputArea: {} }));
+jest.mock('@jupyterlab/services', () => ({ KernelMessage: {} }));
+jest.mock('@jupyterlab/apputils', () => ({ showErrorMessage: jest.fn() }));
+jest.mock('@jupyter/ydoc', () => ({
+  YDocument: class {
+    constructor(readonly ydoc: unknown) {}
+  }
+}));
+// jsdom has no drag events, the widgets are not dragged in these tests
+jest.mock('@lumino/dragdrop', () => ({ Drag: class {} }));
+
+// jsdom does not measure the text of the blocks
+HTMLCanvasElement.prototype.getContext = (() => ({
+  measureText: (text: string) => ({ width: text.length * 8 })
+})) as any;
+
+describe('BlocklyLayout', () => {
+  const sessionContext = {
+    session: null,
+    kernelChanged: { connect: () => undefined, disconnect: () => undefined }
+  } as unknown as ISessionContext;
+
+  let panels: SplitPanel[];
+
+  beforeEach(() => {
+    panels = [];
+  });
+
+  afterEach(() => {
+    panels.forEach(panel => panel.dispose());
+  });
+
+  function createManager(session = sessionContext): BlocklyManager {
+    return new BlocklyManager(new BlocklyRegistry(), session, {
+      getMimeTypeByLanguage: () => 'text/x-python'
+    } as unknown as IEditorMimeTypeService);
+  }
+
+  // Create a layout in a panel attached to the document, injecting Blockly.
+  function createLayout(
+    manager = createManager(),
+    session = sessionContext
+  ): BlocklyLayout {
+    const layout = new BlocklyLayout(
+      manager,
+      session,
+      {} as IRenderMimeRegistry,
+      {} as IEditorFactoryService
+    );
+    const panel = new SplitPanel({ layout });
+    Widget.attach(panel, document.body);
+    panels.push(panel);
+    return layout;
+  }
+
+  // Get the workspace injected in the panel of a layout.
+  function getWorkspace(layout: BlocklyLayout): Blockly.WorkspaceSvg {
+    return Blockly.Workspace.getAll().find(
+      workspace =>
+        workspace instanceof Blockly.WorkspaceSvg &&
+        !workspace.isFlyout &&
+        layout.parent.node.contains(workspace.getInjectionDiv())
+    ) as Blockly.WorkspaceSvg;
+  }
+
+  // Load the blocks of a file in the workspace of a layout.
+  function load(
+    layout: BlocklyLayout,
+    blocks: Blockly.serialization.blocks.State[]
+  ): void {
+    layout.workspace = {
+      blocks: { languageVersion: 0, blocks }
+    } as unknown as Blockly.Workspace;
+  }
+
+  // Add a block to the workspace of a layout like the user.
+  function newBlock(
+    layout: BlocklyLayout,
+    type: string,
+    id: string
+  ): Blockly.BlockSvg {
+    const block = getWorkspace(layout).newBlock(type, id);
+    block.initSvg();
+    block.render();
+    return block;
+  }
+
+  // Select a block of the workspace of a layout.
+  function select(layout: BlocklyLayout, id: string): void {
+    Blockly.common.setSelected(getWorkspace(layout).getBlockById(id));
+  }
+
+  // Fire the pending workspace events, fired by Blockly after the next
+  // animation frame.
+  function flush(): Promise<void> {
+    return new Promise(resolve =>
+      requestAnimationFrame(() => setTimeout(resolve, 0))
+    );
+  }
+
+  describe('undo', () => {
+    it('should undo and redo the edits of the blocks', async () => {
+      const layout = createLayout();
+      expect(layout.canUndo()).toBe(false);
+      newBlock(layout, 'text_print', 'print');
+      await flush();
+      expect(layout.canUndo()).toBe(true);
+
+      layout.undo();
+      expect(getWorkspace(layout).getBlockById('print')).toBeNull();
+      expect(layout.canRedo()).toBe(true);
+
+      layout.redo();
+      expect(getWorkspace(layout).getBlockById('print')).not.toBeNull();
+    });
+
+    it('should undo the blocks added with their move', async () => {
+      const layout = createLayout();
+      layout.addBlock({ type: 'text_print', id: 'first' });
+      layout.addBlock({ type: 'text_print', id: 'second' });
+      await flush();
+
+      layout.undo();
+      expect(getWorkspace(layout).getBlockById('second')).toBeNull();
+      expect(getWorkspace(layout).getBlockById('first')).not.toBeNull();
+    });
+
+    it('should not undo the edits of the read-only workspaces', async () => {
+      const manager = createManager();
+      const layout = createLayout(manager);
+      newBlock(layout, 'text_print', 'print');
+      await flush();
+      manager.setReadOnly(true);
+      expect(layout.readOnly).toBe(true);
+
+      layout.undo();
+      expect(getWorkspace(layout).getBlockById('print')).not.toBeNull();
+    });
+  });
+
+  describe('clipboard', () => {
+    it('should copy the selected block to the other workspaces', () => {
+      const source = createLayout();
+      const target = createLayout();
+      source.addBlock({ type: 'text_print', id: 'print' });
+      select(source, 'print');
+      expect(source.hasSelection()).toBe(true);
+
+      source.copy();
+      expect(target.canPaste()).toBe(true);
+      target.paste();
+      expect(getWorkspace(target).getTopBlocks(false)).toHaveLength(1);
+      expect(getWorkspace(target).getTopBlocks(false)[0].type).toBe(
+        'text_print'
+      );
+    });
+
+    it('should not copy the locked blocks', () => {
+      const layout = createLayout();
+      layout.addBlock({ type: 'text_print', id: 'print' });
+      layout.addBlock({ type: 'text_join', id: 'join', deletable: false });
+      select(layout, 'print');
+      layout.copy();
+
+      select(layout, 'join');
+      layout.copy();
+      layout.paste();
+      expect(
+        getWorkspace(layout)
+          .getTopBlocks(true)
+          .map(block => block.type)
+      ).toEqual(['text_print', 'text_join', 'text_print']);
+    });
+
+    it('should delete the selected block', () => {
+      const layout = createLayout();
+      layout.addBlock({ type: 'text_print', id: 'print' });
+      select(layout, 'print');
+
+      layout.deleteSelected();
+      expect(getWorkspace(layout).getBlockById('print')).toBeNull();
+      expect(layout.hasSelection()).toBe(false);
+    });
+  });
+
+  describe('outputs', () => {
+    const stream = { output_type: 'stream', name: 'stdout', text: 'hi\n' };
+
+    it('should restore the outputs of the cells as untrusted', () => {
+      const layout = createLayout();
+      load(layout, [{ type: 'text_print', id: 'print' }]);
+      layout.setOutputs({
+        workspace: [stream],
+        stacks: { print: [stream], removed: [stream] }
+      });
+      expect(layout.cell.model.trusted).toBe(false);
+      // The outputs of the removed stacks are dropped
+      expect(layout.getOutputs()).toEqual({
+        workspace: [stream],
+        stacks: { print: [stream] }
+      });
+
+      layout.clearOutputs();
+      expect(layout.getOutputs()).toEqual({ workspace: [], stacks: {} });
+    });
+
+    it('should show the saved errors on the blocks raising them', () => {
+      const layout = createLayout();
+      load(layout, [{ type: 'text_print', id: 'print' }]);
+      layout.setOutputs({
+        workspace: [
+          {
+            output_type: 'error',
+            ename: 'NameError',
+            evalue: "name 'x' is not defined",
+            traceback: ['Cell In[1], line 1']
+          }
+        ],
+        stacks: {}
+      });
+      const block = getWorkspace(layout).getBlockById('print') as Blockly.Block;
+      expect(block.hasIcon(Blockly.icons.IconType.WARNING)).toBe(true);
+
+      layout.clearOutputs();
+      expect(block.hasIcon(Blockly.icons.IconType.WARNING)).toBe(false);
+    });
+  });
+
+  describe('locks', () => {
+    const blocks = [
+      {
+        type: 'text_print',
+        id: 'print',
+        inputs: { TEXT: { block: { type: 'text', id: 'text' } } }
+      }
+    ];
+
+    it('should save and restore the locks of the blocks', () => {
+      const layout = createLayout();
+      load(layout, blocks);
+      layout.setLockedBlocks({
+        print: { deletable: false },
+        text: { editable: false },
+        removed: { movable: false }
+      });
+      expect(layout.getLockedBlocks()).toEqual({
+        print: { deletable: false },
+        text: { editable: false }
+      });
+      expect(getWorkspace(layout).getBlockById('print')?.isDeletable()).toBe(
+        false
+      );
+    });
+
+    it('should change a lock as an edit of the document', () => {
+      const layout = createLayout();
+      load(layout, blocks);
+      const changed = jest.fn();
+      layout.workspaceChanged.connect(changed);
+      const block = getWorkspace(layout).getBlockById('print') as Blockly.Block;
+
+      layout.lockBlock(block, { deletable: false });
+      layout.lockBlock(block, { movable: false });
+      expect(layout.getLockedBlocks()).toEqual({
+        print: { deletable: false, movable: false }
+      });
+      layout.lockBlock(block, { deletable: true });
+      expect(layout.getLockedBlocks()).toEqual({ print: { movable: false } });
+      expect(changed).toHaveBeenCalledTimes(3);
+    });
+
+    it('should only edit the locks in authoring mode', () => {
+      const manager = createManager();
+      const layout = createLayout(manager);
+      load(layout, blocks);
+      const item = Blockly.ContextMenuRegistry.registry.getItem(
+        'jupyterlab-blockly-lock-deletable'
+      );
+      const scope = { block: getWorkspace(layout).getBlockById('print') };
+      expect(item?.preconditionFn?.(scope)).toBe('hidden');
+
+      manager.setAuthoring(true);
+      expect(item?.preconditionFn?.(scope)).toBe('enabled');
+    });
+
+    it('should not add blocks to the read-only workspaces', () => {
+      const manager = createManager();
+      const layout = createLayout(manager);
+      manager.setReadOnly(true);
+      expect(layout.addBlock({ type: 'text_print' })).toBe(false);
+      expect(layout.loadWorkspace({})).toBe(false);
+      expect(getWorkspace(layout).getTopBlocks(false)).toEqual([]);
+    });
+  });
+
+  describe('image', () => {
+    function print(id: string, text: string, y: number) {
+      return {
+        type: 'text_print',
+        id,
+        y,
+        inputs: {
+          TEXT: {
+            block: { type: 'text', id: `${id}_text`, fields: { TEXT: text } }
+          }
+        }
+      };
+    }
+
+    // Parse an SVG document rendered by a layout.
+    function parse(svg: string | null): Document {
+      return new DOMParser().parseFromString(svg as string, 'image/svg+xml');
+    }
+
+    it('should not render an empty workspace', () => {
+      const layout = createLayout();
+      expect(layout.toSvg()).toBeNull();
+      expect(layout.toSvg(true)).toBeNull();
+    });
+
+    it('should render the blocks of the workspace', () => {
+      const layout = createLayout();
+      load(layout, [
+        print('first', 'first', 0),
+        print('second', 'second', 100)
+      ]);
+      select(layout, 'first');
+
+      const svg = parse(layout.toSvg());
+      expect(svg.documentElement.tagName).toBe('svg');
+      expect(svg.documentElement.getAttribute('class')).toContain('blocklySvg');
+      // The styles of Blockly are embedded in the image
+      expect(svg.querySelector('style')?.textContent).toContain('.blockly');
+      expect(svg.documentElement.textContent).toContain('first');
+      expect(svg.documentElement.textContent).toContain('second');
+      // The selection is not rendered
+      expect(svg.querySelector('.blocklySelected')).toBeNull();
+    });
+
+    it('should render the stack of the selected block', () => {
+      const layout = createLayout();
+      load(layout, [
+        print('first', 'first', 0),
+        print('second', 'second', 100)
+      ]);
+      expect(layout.toSvg(true)).toBeNull();
+
+      select(layout, 'second_text');
+      const svg = parse(layout.toSvg(true));
+      expect(svg.documentElement.textContent).toContain('second');
+      expect(svg.documentElement.textContent).not.toContain('first');
+    });
+  });
+
+  describe('live mode', () => {
+    beforeEach(async () => {
+      // Fire the events of the previous tests before faking the timers
+      await flush();
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      // Fire the events of the disposed blocks before restoring the timers
+      panels.forEach(panel => panel.dispose());
+      jest.runAllTimers();
+      jest.useRealTimers();
+    });
+
+    // Create a layout in live mode, connected to a python kernel, that
+    // records its runs.
+    function createLiveLayout(): {
+      layout: BlocklyLayout;
+      manager: BlocklyManager;
+      run: jest.Mock;
+    } {
+      const session = {
+        session: {
+          kernel: {
+            interrupt: jest.fn(),
+            registerCommTarget: jest.fn(),
+            removeCommTarget: jest.fn()
+          }
+        },
+        kernelChanged: new Signal<unknown, unknown>({}),
+        specsManager: {
+          specs: {
+            kernelspecs: { python3: { name: 'python3', language: 'python' } }
+          }
+        }
+      };
+      const manager = createManager(session as unknown as ISessionContext);
+      session.kernelChanged.emit({ newValue: { name: 'python3' } });
+      manager.setLiveMode(true);
+      const layout = createLayout(
+        manager,
+        session as unknown as ISessionContext
+      );
+      const run = jest.fn();
+      layout.run = run;
+      return { layout, manager, run };
+    }
+
+    it('should run the code once the blocks stop changing', () => {
+      const { layout, run } = createLiveLayout();
+      newBlock(layout, 'text_print', 'print');
+      jest.advanceTimersByTime(500);
+      newBlock(layout, 'text_print', 'other');
+      jest.advanceTimersByTime(500);
+      expect(run).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1000);
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not run the code after leaving the live mode', () => {
+      const { layout, manager, run } = createLiveLayout();
+      newBlock(layout, 'text_print', 'print');
+      jest.advanceTimersByTime(100);
+      manager.setLiveMode(false);
+      jest.advanceTimersByTime(2000);
+      expect(run).not.toHaveBeenCalled();
+    });
+
+    it('should not run the code for the changes of the collaborators', () => {
+      const docs = [new Y.Doc(), new Y.Doc()];
+      // Send the updates of each document to the other one
+      docs.forEach((doc, index) => {
+        const other = docs[1 - index];
+        doc.on('update', (update: Uint8Array, origin: unknown) => {
+          if (origin !== 'remote') {
+            Y.applyUpdate(other, update, 'remote');
+          }
+        });
+      });
+      const local = createLiveLayout();
+      const remote = createLiveLayout();
+      [local, remote].forEach(({ layout }, index) =>
+        layout.bindSharedModel(new (YDocument as any)(docs[index]), null)
+      );
+
+      newBlock(local.layout, 'text_print', 'print');
+      jest.advanceTimersByTime(2000);
+      expect(getWorkspace(remote.layout).getBlockById('print')).not.toBeNull();
+      expect(local.run).toHaveBeenCalledTimes(1);
+      expect(remote.run).not.toHaveBeenCalled();
+    });
+  });
+});
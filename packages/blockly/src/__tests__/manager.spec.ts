@@ -0,0 +1,87 @@
+import { ISessionContext } from '@jupyterlab/apputils';
+import { IEditorMimeTypeService } from '@jupyterlab/codeeditor';
+
+import { BlockInfo, ToolboxInfo } from 'blockly/core/utils/toolbox';
+
+import { BlocklyManager } from '../manager';
+import { BlocklyRegistry } from '../registry';
+
+describe('BlocklyManager', () => {
+  const sessionContext = {
+    kernelChanged: { connect: () => undefined, disconnect: () => undefined }
+  } as unknown as ISessionContext;
+
+  let registry: BlocklyRegistry;
+  let manager: BlocklyManager;
+
+  beforeEach(() => {
+    registry = new BlocklyRegistry();
+    registry.registerToolbox('limits', {
+      kind: 'flyoutToolbox',
+      contents: [
+        { kind: 'block', type: 'text_print' },
+        { kind: 'block', type: 'text_changeCase' },
+        { kind: 'block', type: 'lists_getIndex' },
+        { kind: 'block', type: 'constructor' }
+      ]
+    });
+    manager = new BlocklyManager(
+      registry,
+      sessionContext,
+      {} as IEditorMimeTypeService
+    );
+    manager.setToolbox('limits');
+  });
+
+  // Whether a block of the toolbox can be dragged to the workspace.
+  function isEnabled(type: string): boolean {
+    const blocks = (manager.toolbox as ToolboxInfo).contents as BlockInfo[];
+    return !blocks.find(block => block.type === type)?.disabled;
+  }
+
+  describe('setAllowedBlocks', () => {
+    it('should allow the blocks in lower case', () => {
+      manager.setAllowedBlocks(['text_print', 'text_changecase']);
+      expect(isEnabled('text_print')).toBe(true);
+      expect(isEnabled('text_changeCase')).toBe(true);
+      expect(isEnabled('lists_getIndex')).toBe(false);
+    });
+
+    it('should allow the blocks in camel case', () => {
+      manager.setAllowedBlocks({ lists_getIndex: 2 });
+      expect(isEnabled('lists_getIndex')).toBe(true);
+      expect(isEnabled('text_changeCase')).toBe(false);
+      expect(manager.getAllowedBlocks()).toEqual(['lists_getindex']);
+    });
+
+    it('should not allow the inherited properties of the limits', () => {
+      manager.setAllowedBlocks(['text_print']);
+      expect(isEnabled('constructor')).toBe(false);
+    });
+
+    it('should allow every block without a list', () => {
+      manager.setAllowedBlocks(['text_print']);
+      manager.setAllowedBlocks(undefined);
+      expect(isEnabled('lists_getIndex')).toBe(true);
+    });
+  });
+
+  describe('getMaxInstances', () => {
+    it('should limit the registered camel case block types', () => {
+      manager.setAllowedBlocks({
+        text_changecase: 2,
+        lists_getIndex: 1,
+        text_print: null
+      });
+      expect(manager.getMaxInstances()).toEqual({
+        text_changeCase: 2,
+        lists_getIndex: 1
+      });
+    });
+
+    it('should keep the unknown block types', () => {
+      manager.setAllowedBlocks({ unknown_block: 3 });
+      expect(manager.getMaxInstances()).toEqual({ unknown_block: 3 });
+    });
+  });
+});
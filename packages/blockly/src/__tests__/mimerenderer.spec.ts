@@ -0,0 +1,108 @@
+/**
+ * @jest-environment jsdom
+ */
+import { IRenderMime } from '@jupyterlab/rendermime';
+
+import { Widget } from '@lumino/widgets';
+
+import { BlocklyFormat } from '../format';
+import {
+  BLOCKLY_MIME_TYPE,
+  RenderedBlockly,
+  blocklyRendererFactory
+} from '../mimerenderer';
+
+// jsdom has no drag events, the widgets are not dragged in these tests
+jest.mock('@lumino/dragdrop', () => ({ Drag: class {} }));
+
+// jsdom does not measure the text of the blocks
+HTMLCanvasElement.prototype.getContext = (() => ({
+  measureText: (text: string) => ({ width: text.length * 8 })
+})) as any;
+
+describe('RenderedBlockly', () => {
+  const workspace = {
+    blocks: {
+      languageVersion: 0,
+      blocks: [{ type: 'text_print', id: 'print' }]
+    }
+  };
+
+  let renderers: RenderedBlockly[];
+
+  beforeEach(() => {
+    renderers = [];
+  });
+
+  afterEach(() => {
+    renderers.forEach(renderer => renderer.dispose());
+  });
+
+  function createRenderer(): RenderedBlockly {
+    const renderer = blocklyRendererFactory.createRenderer({
+      mimeType: BLOCKLY_MIME_TYPE
+    } as IRenderMime.IRendererOptions) as RenderedBlockly;
+    renderers.push(renderer);
+    return renderer;
+  }
+
+  function createModel(data: unknown): IRenderMime.IMimeModel {
+    return {
+      data: { [BLOCKLY_MIME_TYPE]: data }
+    } as unknown as IRenderMime.IMimeModel;
+  }
+
+  // The error shown in place of the workspace.
+  function getError(renderer: RenderedBlockly): string | null | undefined {
+    return renderer.node.querySelector('.jp-RenderedText pre')?.textContent;
+  }
+
+  it('should render the workspace once attached', async () => {
+    const renderer = createRenderer();
+    await renderer.renderModel(createModel(workspace));
+    expect(renderer.node.querySelector('.blocklySvg')).toBeNull();
+
+    Widget.attach(renderer, document.body);
+    expect(renderer.node.querySelector('.blocklySvg')).not.toBeNull();
+    expect(renderer.node.querySelector('[data-id="print"]')).not.toBeNull();
+    expect(getError(renderer)).toBeUndefined();
+  });
+
+  it('should render the workspace of a Blockly file', async () => {
+    const renderer = createRenderer();
+    Widget.attach(renderer, document.body);
+    await renderer.renderModel(
+      createModel({
+        format: BlocklyFormat.currentVersion(),
+        workspace,
+        metadata: {}
+      })
+    );
+    expect(renderer.node.querySelector('[data-id="print"]')).not.toBeNull();
+  });
+
+  it('should show the invalid files', async () => {
+    const renderer = createRenderer();
+    Widget.attach(renderer, document.body);
+    await renderer.renderModel(createModel({ format: 2, workspace: [] }));
+    expect(getError(renderer)).toContain('Invalid Blockly workspace');
+    expect(renderer.node.querySelector('.blocklySvg')).toBeNull();
+  });
+
+  it('should show the blocks that cannot be rendered', async () => {
+    const renderer = createRenderer();
+    Widget.attach(renderer, document.body);
+    await renderer.renderModel(
+      createModel({
+        blocks: { languageVersion: 0, blocks: [{ type: 'unknown_block' }] }
+      })
+    );
+    expect(getError(renderer)).toContain('Cannot render the Blockly workspace');
+    expect(renderer.node.querySelector('.blocklySvg')).toBeNull();
+
+    // The next output replaces the error
+    await renderer.renderModel(createModel(workspace));
+    expect(getError(renderer)).toBeUndefined();
+    expect(renderer.node.querySelector('.blocklySvg')).not.toBeNull();
+  });
+});
@@ -0,0 +1,336 @@
+import * as Blockly from 'blockly';
+
+import { BlocklyRegistry } from '../registry';
+
+describe('BlocklyRegistry', () => {
+  let registry: BlocklyRegistry;
+
+  beforeEach(() => {
+    registry = new BlocklyRegistry();
+  });
+
+  // Generate the code of a workspace with the generator of a language.
+  function generate(
+    language: string,
+    blocks: Blockly.serialization.blocks.State[]
+  ): string {
+    const workspace = new Blockly.Workspace();
+    try {
+      Blockly.serialization.workspaces.load(
+        { blocks: { languageVersion: 0, blocks } },
+        workspace
+      );
+      return registry.generators.get(language).workspaceToCode(workspace);
+    } finally {
+      workspace.dispose();
+    }
+  }
+
+  describe('registerBlocks', () => {
+    it('should compile the templates of the statements', () => {
+      registry.registerBlocks([
+        {
+          type: 'test_say',
+          message0: 'say %1',
+          args0: [{ type: 'input_value', name: 'TEXT' }],
+          previousStatement: null,
+          nextStatement: null,
+          templates: {
+            python: 'say({{ TEXT }})',
+            javascript: 'say({{TEXT}});'
+          }
+        }
+      ]);
+      const blocks = [
+        {
+          type: 'test_say',
+          inputs: {
+            TEXT: { block: { type: 'text', fields: { TEXT: 'hi' } } }
+          }
+        }
+      ];
+      expect(generate('python', blocks)).toBe("say('hi')\n");
+      expect(generate('javascript', blocks)).toBe("say('hi');\n");
+    });
+
+    it('should compile the templates of the values with their fields', () => {
+      registry.registerBlocks([
+        {
+          type: 'test_double',
+          message0: 'double %1',
+          args0: [{ type: 'field_number', name: 'NUMBER', value: 0 }],
+          output: 'Number',
+          templates: { python: { code: '2 * {{NUMBER}}', order: 5 } }
+        },
+        {
+          type: 'test_show',
+          message0: 'show %1',
+          args0: [{ type: 'input_value', name: 'VALUE' }],
+          previousStatement: null,
+          nextStatement: null,
+          templates: {
+            python: { code: 'show({{VALUE}})', input_orders: { VALUE: 99 } }
+          }
+        }
+      ]);
+      expect(
+        generate('python', [
+          {
+            type: 'test_show',
+            inputs: {
+              VALUE: { block: { type: 'test_double', fields: { NUMBER: 3 } } }
+            }
+          }
+        ])
+      ).toBe('show(2 * 3)\n');
+    });
+
+    it('should wrap the inputs binding less tightly in parentheses', () => {
+      registry.registerBlocks([
+        {
+          type: 'test_twice',
+          message0: 'twice %1',
+          args0: [{ type: 'input_value', name: 'VALUE' }],
+          output: 'Number',
+          templates: { python: { code: '{{VALUE}} * 2', order: 8 } }
+        }
+      ]);
+      const sum = {
+        type: 'math_arithmetic',
+        fields: { OP: 'ADD' },
+        inputs: {
+          A: { block: { type: 'math_number', fields: { NUM: 1 } } },
+          B: { block: { type: 'math_number', fields: { NUM: 1 } } }
+        }
+      };
+      expect(
+        generate('python', [
+          {
+            type: 'text_print',
+            inputs: {
+              TEXT: {
+                block: { type: 'test_twice', inputs: { VALUE: { block: sum } } }
+              }
+            }
+          }
+        ])
+      ).toBe('print((1 + 1) * 2)\n');
+    });
+
+    it('should wrap the values without an order in parentheses', () => {
+      registry.registerBlocks([
+        {
+          type: 'test_increment',
+          message0: 'increment %1',
+          args0: [{ type: 'field_number', name: 'NUMBER', value: 0 }],
+          output: 'Number',
+          templates: { python: '{{NUMBER}} + 1' }
+        }
+      ]);
+      expect(
+        generate('python', [
+          {
+            type: 'text_print',
+            inputs: {
+              TEXT: {
+                block: {
+                  type: 'math_arithmetic',
+                  fields: { OP: 'MULTIPLY' },
+                  inputs: {
+                    A: {
+                      block: { type: 'test_increment', fields: { NUMBER: 1 } }
+                    },
+                    B: { block: { type: 'math_number', fields: { NUM: 2 } } }
+                  }
+                }
+              }
+            }
+          }
+        ])
+      ).toBe('print((1 + 1) * 2)\n');
+    });
+
+    it('should fill the empty bodies and add the toplevel code', () => {
+      registry.registerBlocks([
+        {
+          type: 'test_repeat',
+          message0: 'repeat %1',
+          args0: [{ type: 'input_statement', name: 'DO' }],
+          previousStatement: null,
+          nextStatement: null,
+          templates: {
+            python: {
+              code: 'for _ in forever():\n{{DO}}',
+              toplevel_init: 'from loops import forever'
+            }
+          }
+        }
+      ]);
+      expect(generate('python', [{ type: 'test_repeat' }])).toBe(
+        'from loops import forever\n\n\nfor _ in forever():\n  pass\n'
+      );
+    });
+
+    it('should compile the templates in the generators registered later', () => {
+      registry.registerBlocks([
+        {
+          type: 'test_beep',
+          message0: 'beep',
+          previousStatement: null,
+          nextStatement: null,
+          templates: { logo: 'BEEP' }
+        }
+      ]);
+      const generator = new Blockly.CodeGenerator('Logo');
+      registry.registerGenerator('logo', generator);
+      expect(generate('logo', [{ type: 'test_beep' }])).toBe('BEEP\n');
+    });
+
+    it('should forget the templates of a block defined again without them', () => {
+      registry.registerBlocks([
+        {
+          type: 'test_honk',
+          message0: 'honk',
+          previousStatement: null,
+          nextStatement: null,
+          templates: { honk: 'HONK' }
+        }
+      ]);
+      registry.registerBlocks([
+        {
+          type: 'test_honk',
+          message0: 'honk',
+          previousStatement: null,
+          nextStatement: null
+        }
+      ]);
+      const generator = new Blockly.CodeGenerator('Honk');
+      registry.registerGenerator('honk', generator);
+      expect(generator.forBlock['test_honk']).toBeUndefined();
+    });
+  });
+
+  describe('unregisterToolbox', () => {
+    it('should remove a toolbox and signal it', () => {
+      const changed: string[] = [];
+      registry.toolboxesChanged.connect((sender, name) => changed.push(name));
+      registry.registerToolbox('test', { kind: 'flyoutToolbox', contents: [] });
+      expect(registry.unregisterToolbox('test')).toBe(true);
+      expect(registry.toolboxes.has('test')).toBe(false);
+      expect(changed).toEqual(['test', 'test']);
+    });
+
+    it('should keep the default toolbox', () => {
+      expect(registry.unregisterToolbox('default')).toBe(false);
+      expect(registry.unregisterToolbox('unknown')).toBe(false);
+      expect(registry.toolboxes.has('default')).toBe(true);
+    });
+  });
+
+  describe('unregisterGenerator', () => {
+    it('should remove a generator and signal it', () => {
+      const changed: string[] = [];
+      registry.generatorsChanged.connect((sender, language) =>
+        changed.push(language)
+      );
+      expect(registry.unregisterGenerator('lua')).toBe(true);
+      expect(registry.unregisterGenerator('lua')).toBe(false);
+      expect(registry.generators.has('lua')).toBe(false);
+      expect(changed).toEqual(['lua']);
+    });
+  });
+
+  describe('unregisterBlock', () => {
+    it('should remove a block and the code of its templates', () => {
+      registry.registerBlocks([
+        {
+          type: 'test_quack',
+          message0: 'quack',
+          previousStatement: null,
+          nextStatement: null,
+          templates: { python: 'quack()' }
+        }
+      ]);
+      expect(registry.unregisterBlock('test_quack')).toBe(true);
+      expect(Blockly.Blocks['test_quack']).toBeUndefined();
+      const generator = registry.generators.get('python');
+      expect(generator.forBlock['test_quack']).toBeUndefined();
+      expect(registry.unregisterBlock('test_quack')).toBe(false);
+    });
+
+    it('should not remove the inherited properties', () => {
+      expect(registry.unregisterBlock('constructor')).toBe(false);
+    });
+  });
+
+  describe('getLanguage', () => {
+    it('should find the generators of the languages', () => {
+      expect(registry.getLanguage('javascript')).toBe('javascript');
+      expect(registry.getLanguage('cobol')).toBeUndefined();
+    });
+
+    it('should find the generators of the kernel languages', () => {
+      expect(registry.getLanguage('ipython3')).toBe('python');
+      expect(registry.getLanguage('xpython')).toBe('python');
+    });
+
+    it('should find the generators of the registered aliases', () => {
+      const changed: string[] = [];
+      registry.generatorsChanged.connect((sender, language) =>
+        changed.push(language)
+      );
+      registry.registerLanguageAlias('node', 'javascript');
+      expect(registry.getLanguage('node')).toBe('javascript');
+      expect(changed).toEqual(['node']);
+    });
+
+    it('should ignore the aliases of the unregistered generators', () => {
+      registry.registerLanguageAlias('moonscript', 'lua');
+      registry.unregisterGenerator('lua');
+      expect(registry.getLanguage('moonscript')).toBeUndefined();
+    });
+  });
+
+  describe('generateCode', () => {
+    let workspace: Blockly.Workspace;
+
+    beforeEach(() => {
+      registry.registerBlocks([
+        {
+          type: 'test_log',
+          message0: 'log',
+          previousStatement: null,
+          nextStatement: null,
+          templates: { python: 'log()' }
+        }
+      ]);
+      Blockly.Blocks['test_log'].toplevel_init = 'from logs import log\n';
+      workspace = new Blockly.Workspace();
+      Blockly.serialization.workspaces.load(
+        { blocks: { languageVersion: 0, blocks: [{ type: 'test_log' }] } },
+        workspace
+      );
+    });
+
+    afterEach(() => {
+      workspace.dispose();
+      registry.unregisterBlock('test_log');
+    });
+
+    it('should generate the code after the toplevel code', () => {
+      expect(registry.generateCode(workspace, 'python')).toBe(
+        'from logs import log\nlog()\n'
+      );
+    });
+
+    it('should generate the code of the kernel languages', () => {
+      expect(registry.generateCode(workspace, 'ipython3')).toBe(
+        registry.generateCode(workspace, 'python')
+      );
+    });
+
+    it('should not generate the code without a generator', () => {
+      expect(registry.generateCode(workspace, 'cobol')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { ToolboxSearchCategory } from '../search';
+
+describe('ToolboxSearchCategory', () => {
+  describe('indexBlocks', () => {
+    const toolbox = {
+      kind: 'categoryToolbox',
+      contents: [
+        {
+          kind: 'category',
+          name: 'Text',
+          contents: [
+            { kind: 'block', type: 'text_print' },
+            { kind: 'block', type: 'text_length', disabled: true }
+          ]
+        },
+        {
+          kind: 'category',
+          name: 'Logic',
+          contents: [
+            {
+              kind: 'category',
+              name: 'Conditions',
+              contents: [{ kind: 'block', type: 'controls_if' }]
+            }
+          ]
+        },
+        {
+          kind: 'category',
+          name: 'Lists',
+          hidden: 'true',
+          contents: [{ kind: 'block', type: 'lists_length' }]
+        },
+        { kind: 'category', name: 'Again', contents: [] },
+        { kind: 'block', type: 'text_print' }
+      ]
+    };
+
+    it('should list the visible blocks once', () => {
+      const types = ToolboxSearchCategory.indexBlocks(toolbox).map(
+        block => block.info.type
+      );
+      expect(types).toEqual(['text_print', 'controls_if']);
+    });
+
+    it('should index the type and the text of the blocks in lower case', () => {
+      const [print] = ToolboxSearchCategory.indexBlocks(toolbox);
+      expect(print.text).toContain('text_print');
+      expect(print.text).toContain('text print');
+      // The tooltip of the block
+      expect(print.text).toContain('print the specified text');
+      expect(print.text).toBe(print.text.toLowerCase());
+    });
+
+    it('should keep the unknown blocks searchable by their type', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const [unknown] = ToolboxSearchCategory.indexBlocks({
+        kind: 'flyoutToolbox',
+        contents: [{ kind: 'block', type: 'unknown_block' }]
+      });
+      expect(unknown.text).toBe('unknown_block unknown block');
+    });
+
+    it('should accept the missing toolboxes', () => {
+      expect(ToolboxSearchCategory.indexBlocks(null)).toEqual([]);
+    });
+  });
+});
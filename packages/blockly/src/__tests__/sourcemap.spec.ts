@@ -0,0 +1,99 @@
+import * as Blockly from 'blockly';
+import { pythonGenerator } from 'blockly/python';
+
+import { SourceMap } from '../sourcemap';
+
+// The editors are not used to generate the code
+jest.mock('@jupyterlab/codemirror', () => ({ CodeMirrorEditor: class {} }));
+
+describe('SourceMap', () => {
+  let workspace: Blockly.Workspace;
+
+  beforeEach(() => {
+    workspace = new Blockly.Workspace();
+    Blockly.serialization.workspaces.load(
+      {
+        blocks: {
+          languageVersion: 0,
+          blocks: [
+            {
+              type: 'controls_if',
+              id: 'if',
+              inputs: {
+                IF0: { block: { type: 'logic_boolean', id: 'true' } },
+                DO0: {
+                  block: {
+                    type: 'text_print',
+                    id: 'print_a',
+                    inputs: {
+                      TEXT: { block: { type: 'text', fields: { TEXT: 'a' } } }
+                    }
+                  }
+                }
+              },
+              next: {
+                block: {
+                  type: 'text_print',
+                  id: 'print_b',
+                  inputs: {
+                    TEXT: { block: { type: 'text', fields: { TEXT: 'b' } } }
+                  }
+                }
+              }
+            }
+          ]
+        }
+      },
+      workspace
+    );
+  });
+
+  afterEach(() => {
+    workspace.dispose();
+  });
+
+  function generate(): SourceMap.IResult {
+    return SourceMap.generate(pythonGenerator, () =>
+      pythonGenerator.workspaceToCode(workspace)
+    );
+  }
+
+  describe('generate', () => {
+    it('should remove the markers from the code', () => {
+      const { code } = generate();
+      expect(code).toBe(pythonGenerator.workspaceToCode(workspace));
+      expect(code).not.toContain('@@jp-blockly@@');
+    });
+
+    it('should restore the statement prefix of the generator', () => {
+      generate();
+      expect(pythonGenerator.STATEMENT_PREFIX).toBeNull();
+    });
+
+    it('should map the lines to the blocks producing them', () => {
+      const { code, sourceMap } = generate();
+      const lines = code.split('\n');
+      expect(sourceMap.length).toBe(lines.length);
+      expect(sourceMap.getBlockId(lines.indexOf('if True:'))).toBe('if');
+      expect(sourceMap.getBlockId(lines.indexOf("  print('a')"))).toBe(
+        'print_a'
+      );
+      expect(sourceMap.getBlockId(lines.indexOf("print('b')"))).toBe('print_b');
+    });
+
+    it('should not map the empty lines', () => {
+      const { code, sourceMap } = generate();
+      const empty = code.split('\n').indexOf('');
+      expect(sourceMap.getBlockId(empty)).toBeNull();
+      expect(sourceMap.getBlockId(1000)).toBeNull();
+    });
+  });
+
+  describe('getLines', () => {
+    it('should list the lines of the given blocks', () => {
+      const sourceMap = new SourceMap(['if', 'print_a', null, 'print_a']);
+      expect(sourceMap.getLines(['print_a'])).toEqual([1, 3]);
+      expect(sourceMap.getLines(['if', 'print_b'])).toEqual([0]);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import * as Blockly from 'blockly';
+import { javascriptGenerator } from 'blockly/javascript';
+import { pythonGenerator } from 'blockly/python';
+
+import { Stepper } from '../stepper';
+
+// The cells are not used to instrument the code
+jest.mock('@jupyterlab/outputarea', () => ({ OutputArea: {} }));
+jest.mock('@jupyterlab/services', () => ({ KernelMessage: {} }));
+
+describe('Stepper', () => {
+  let workspace: Blockly.Workspace;
+
+  beforeEach(() => {
+    workspace = new Blockly.Workspace();
+    Blockly.serialization.workspaces.load(
+      {
+        blocks: {
+          languageVersion: 0,
+          blocks: [
+            {
+              type: 'text_print',
+              id: 'first',
+              inputs: {
+                TEXT: { block: { type: 'text', fields: { TEXT: 'a' } } }
+              },
+              next: {
+                block: {
+                  type: 'text_print',
+                  id: 'second',
+                  inputs: {
+                    TEXT: { block: { type: 'text', fields: { TEXT: 'b' } } }
+                  }
+                }
+              }
+            }
+          ]
+        }
+      },
+      workspace
+    );
+  });
+
+  afterEach(() => {
+    workspace.dispose();
+  });
+
+  describe('isSupported', () => {
+    it('should only support the languages reading inputs', () => {
+      expect(Stepper.isSupported('python')).toBe(true);
+      expect(Stepper.isSupported('javascript')).toBe(false);
+    });
+  });
+
+  describe('instrument', () => {
+    it('should request an input before each block', () => {
+      const code = Stepper.instrument(pythonGenerator, 'python', () =>
+        pythonGenerator.workspaceToCode(workspace)
+      );
+      expect(code).toBe(
+        [
+          "input('blockly-step:' + 'first')",
+          "print('a')",
+          "input('blockly-step:' + 'second')",
+          "print('b')",
+          ''
+        ].join('\n')
+      );
+    });
+
+    it('should restore the statement prefix of the generator', () => {
+      Stepper.instrument(pythonGenerator, 'python', () =>
+        pythonGenerator.workspaceToCode(workspace)
+      );
+      expect(pythonGenerator.STATEMENT_PREFIX).toBeNull();
+      expect(pythonGenerator.workspaceToCode(workspace)).toBe(
+        "print('a')\nprint('b')\n"
+      );
+    });
+
+    it('should restore the statement prefix when the generation fails', () => {
+      expect(() =>
+        Stepper.instrument(pythonGenerator, 'python', () => {
+          throw new Error('Generation failed');
+        })
+      ).toThrow('Generation failed');
+      expect(pythonGenerator.STATEMENT_PREFIX).toBeNull();
+    });
+
+    it('should follow the registered languages', () => {
+      Stepper.statementPrefixes.set('javascript', "await step('%2' + %1);\n");
+      try {
+        const code = Stepper.instrument(javascriptGenerator, 'javascript', () =>
+          javascriptGenerator.workspaceToCode(workspace)
+        );
+        expect(code).toContain("await step('blockly-step:' + 'first');");
+      } finally {
+        Stepper.statementPrefixes.delete('javascript');
+      }
+    });
+  });
+
+  describe('state', () => {
+    it('should pause, resume and stop the execution', () => {
+      const stepper = new Stepper();
+      const states: Stepper.State[] = [];
+      stepper.stateChanged.connect((sender, state) => states.push(state));
+      stepper.start();
+      stepper.resume();
+      stepper.pause();
+      expect(stepper.stop()).toBe(false);
+      expect(states).toEqual(['paused', 'running', 'paused', 'idle']);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { ISharedFile, YDocument } from '@jupyter/ydoc';
+
+import * as Blockly from 'blockly';
+import * as Y from 'yjs';
+
+import { WorkspaceSync } from '../sync';
+
+// Only the Y document of the shared model is synchronized
+jest.mock('@jupyter/ydoc', () => ({
+  YDocument: class {
+    constructor(readonly ydoc: unknown) {}
+  }
+}));
+
+describe('WorkspaceSync', () => {
+  const SharedModel = YDocument as unknown as new (ydoc: Y.Doc) => ISharedFile;
+
+  let docs: Y.Doc[];
+  let workspaces: Blockly.Workspace[];
+  let syncs: WorkspaceSync[];
+
+  beforeEach(() => {
+    docs = [new Y.Doc(), new Y.Doc()];
+    // Send the updates of each document to the other one
+    docs.forEach((doc, index) => {
+      const other = docs[1 - index];
+      doc.on('update', (update: Uint8Array, origin: unknown) => {
+        if (origin !== 'remote') {
+          Y.applyUpdate(other, update, 'remote');
+        }
+      });
+    });
+    workspaces = [new Blockly.Workspace(), new Blockly.Workspace()];
+    syncs = [];
+  });
+
+  afterEach(() => {
+    syncs.forEach(sync => sync.dispose());
+    workspaces.forEach(workspace => workspace.dispose());
+  });
+
+  // Synchronize a workspace with its document.
+  function connect(index: number, lastModified: string | null = null): void {
+    syncs.push(
+      new WorkspaceSync(
+        workspaces[index] as Blockly.WorkspaceSvg,
+        new SharedModel(docs[index]),
+        lastModified
+      )
+    );
+  }
+
+  // Fire the pending workspace events, fired asynchronously by Blockly,
+  // then the events of the remote changes they caused.
+  async function flush(): Promise<void> {
+    for (let i = 0; i < 2; i++) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+
+  function print(id: string, text: string): Blockly.serialization.blocks.State {
+    return {
+      type: 'text_print',
+      id,
+      inputs: {
+        TEXT: {
+          block: { type: 'text', id: `${id}_text`, fields: { TEXT: text } }
+        }
+      }
+    };
+  }
+
+  function load(index: number, blocks: Blockly.serialization.blocks.State[]) {
+    Blockly.serialization.workspaces.load(
+      { blocks: { languageVersion: 0, blocks } },
+      workspaces[index]
+    );
+  }
+
+  function topBlocks(index: number): string[] {
+    return workspaces[index].getTopBlocks(true).map(block => block.id);
+  }
+
+  it('should push the local workspace and pull the shared one', () => {
+    load(0, [{ ...print('a', 'a'), next: { block: print('b', 'b') } }]);
+    connect(0);
+    expect([...docs[1].getMap('blockly:blocks').keys()]).toEqual(['a']);
+
+    connect(1);
+    expect(topBlocks(1)).toEqual(['a']);
+    expect(workspaces[1].getBlockById('a')?.getNextBlock()?.id).toBe('b');
+  });
+
+  it('should share the new and the edited stacks', async () => {
+    connect(0);
+    connect(1);
+    Blockly.serialization.blocks.append(print('a', 'a'), workspaces[0]);
+    await flush();
+    expect(topBlocks(1)).toEqual(['a']);
+
+    workspaces[0].getBlockById('a_text')?.setFieldValue('edited', 'TEXT');
+    await flush();
+    expect(workspaces[1].getBlockById('a_text')?.getFieldValue('TEXT')).toBe(
+      'edited'
+    );
+
+    workspaces[0].getBlockById('a')?.dispose(false);
+    await flush();
+    expect(topBlocks(1)).toEqual([]);
+  });
+
+  it('should move a block between stacks', async () => {
+    load(0, [
+      { ...print('a', 'a'), next: { block: print('b', 'b') } },
+      { ...print('c', 'c'), x: 0, y: 200 }
+    ]);
+    connect(0);
+    connect(1);
+
+    const moved = workspaces[0].getBlockById('b') as Blockly.Block;
+    moved.unplug();
+    workspaces[0]
+      .getBlockById('c')
+      ?.nextConnection?.connect(moved.previousConnection as Blockly.Connection);
+    await flush();
+
+    expect([...docs[1].getMap('blockly:blocks').keys()].sort()).toEqual([
+      'a',
+      'c'
+    ]);
+    expect(workspaces[1].getBlockById('a')?.getNextBlock()).toBeNull();
+    expect(workspaces[1].getBlockById('c')?.getNextBlock()?.id).toBe('b');
+    expect(workspaces[1].getAllBlocks(false).length).toBe(6);
+  });
+
+  it('should rename and delete the variables', async () => {
+    connect(0);
+    connect(1);
+    workspaces[0].createVariable('count', '', 'count_id');
+    await flush();
+    expect(workspaces[1].getVariableById('count_id')?.name).toBe('count');
+
+    workspaces[0].renameVariableById('count_id', 'total');
+    await flush();
+    expect(workspaces[1].getVariableById('count_id')?.name).toBe('total');
+
+    workspaces[0].deleteVariableById('count_id');
+    await flush();
+    expect(workspaces[1].getVariableById('count_id')).toBeNull();
+  });
+
+  it('should discard an outdated shared workspace', () => {
+    load(0, [print('a', 'a')]);
+    connect(0, '2024-01-01');
+    load(1, [print('b', 'b')]);
+    connect(1, '2024-01-02');
+
+    expect(topBlocks(0)).toEqual(['b']);
+    expect(topBlocks(1)).toEqual(['b']);
+    expect(docs[0].getMap('blockly:meta').get('lastModified')).toBe(
+      '2024-01-02'
+    );
+  });
+
+  it('should keep a shared workspace of the same file', () => {
+    load(0, [print('a', 'a')]);
+    connect(0, '2024-01-01');
+    load(1, [print('b', 'b')]);
+    connect(1, '2024-01-01');
+
+    expect(topBlocks(1)).toEqual(['a']);
+  });
+
+  it('should keep the remote changes out of the undo stack', async () => {
+    connect(0);
+    connect(1);
+    await flush();
+    workspaces[1].clearUndo();
+
+    Blockly.serialization.blocks.append(print('a', 'a'), workspaces[0], {
+      recordUndo: true
+    });
+    await flush();
+    workspaces[0].createVariable('count', '', 'count_id');
+    workspaces[0].getBlockById('a')?.dispose(false);
+    await flush();
+    expect(topBlocks(1)).toEqual([]);
+    expect(workspaces[1].getVariableById('count_id')).not.toBeNull();
+    expect(workspaces[0].getUndoStack().length).toBeGreaterThan(0);
+    expect(workspaces[1].getUndoStack()).toEqual([]);
+    expect(Blockly.Events.getRecordUndo()).toBe(true);
+  });
+
+  it('should recognize the events of the remote changes', async () => {
+    connect(0);
+    connect(1);
+    const events: Blockly.Events.Abstract[] = [];
+    workspaces[1].addChangeListener(event => events.push(event));
+
+    Blockly.serialization.blocks.append(print('a', 'a'), workspaces[0]);
+    await flush();
+    expect(events.length).toBeGreaterThan(0);
+    expect(events.every(event => syncs[1].isRemote(event))).toBe(true);
+    expect(events.some(event => syncs[0].isRemote(event))).toBe(false);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * @jest-environment jsdom
+ */
+import { YDocument } from '@jupyter/ydoc';
+import { ISessionContext } from '@jupyterlab/apputils';
+import {
+  IEditorFactoryService,
+  IEditorMimeTypeService
+} from '@jupyterlab/codeeditor';
+import { DocumentModel, DocumentRegistry } from '@jupyterlab/docregistry';
+import { IRenderMimeRegistry } from '@jupyterlab/rendermime';
+
+import { PartialJSONObject } from '@lumino/coreutils';
+import { Signal } from '@lumino/signaling';
+import { Widget } from '@lumino/widgets';
+
+import * as Blockly from 'blockly';
+import * as Y from 'yjs';
+
+import { BlocklyFormat } from '../format';
+import { BlocklyManager } from '../manager';
+import { BlocklyRegistry } from '../registry';
+import { BlocklyPanel } from '../widget';
+
+jest.mock('@jupyterlab/cells', () => jest.requireActual('./cells'));
+jest.mock('@jupyterlab/codemirror', () => ({ CodeMirrorEditor: class {} }));
+jest.mock('@jupyterlab/outputarea', () => ({ OutputArea: {} }));
+jest.mock('@jupyterlab/services', () => ({ KernelMessage: {} }));
+jest.mock('@jupyterlab/apputils', () => ({
+  showErrorMessage: jest.fn(),
+  Toolbar: class {}
+}));
+jest.mock('@jupyterlab/docregistry', () => ({ DocumentWidget: class {} }));
+jest.mock('@jupyterlab/ui-components', () => ({}));
+jest.mock('@jupyter/ydoc', () => ({
+  YDocument: class {
+    constructor(readonly ydoc: unknown) {}
+  }
+}));
+// The toolbar of the editor is not created in these tests
+jest.mock('../toolbar', () => ({}));
+// jsdom has no drag events, the widgets are not dragged in these tests
+jest.mock('@lumino/dragdrop', () => ({ Drag: class {} }));
+
+// jsdom does not measure the text of the blocks
+HTMLCanvasElement.prototype.getContext = (() => ({
+  measureText: (text: string) => ({ width: text.length * 8 })
+})) as any;
+
+describe('BlocklyPanel', () => {
+  const sessionContext = {
+    session: null,
+    kernelChanged: { connect: () => undefined, disconnect: () => undefined }
+  } as unknown as ISessionContext;
+
+  let panels: BlocklyPanel[];
+
+  beforeEach(() => {
+    panels = [];
+  });
+
+  afterEach(() => {
+    panels.forEach(panel => panel.dispose());
+  });
+
+  // The context of a file, keeping its content in memory.
+  class Context {
+    constructor(public content: BlocklyFormat.Content) {}
+    readonly ready = Promise.resolve();
+    readonly saveState = new Signal<Context, DocumentRegistry.SaveState>(this);
+    readonly sessionContext = sessionContext;
+    readonly contentsModel = null;
+    readonly model = {
+      dirty: false,
+      sharedModel: new (YDocument as any)(new Y.Doc()),
+      toJSON: () => this.content,
+      fromJSON: (content: BlocklyFormat.Content) => (this.content = content)
+    };
+  }
+
+  // Open a file in a panel attached to the document.
+  async function open(context: Context): Promise<BlocklyPanel> {
+    const registry = new BlocklyRegistry();
+    registry.registerToolbox('limits', {
+      kind: 'categoryToolbox',
+      contents: [
+        {
+          kind: 'category',
+          name: 'Blocks',
+          contents: [
+            { kind: 'block', type: 'text_print' },
+            { kind: 'block', type: 'lists_getIndex' }
+          ]
+        }
+      ]
+    });
+    const manager = new BlocklyManager(registry, sessionContext, {
+      getMimeTypeByLanguage: () => 'text/x-python'
+    } as unknown as IEditorMimeTypeService);
+    const panel = new BlocklyPanel(
+      context as unknown as DocumentRegistry.IContext<DocumentModel>,
+      manager,
+      {} as IRenderMimeRegistry,
+      {} as IEditorFactoryService
+    );
+    Widget.attach(panel, document.body);
+    panels.push(panel);
+    await context.ready;
+    return panel;
+  }
+
+  // Get the workspace injected in a panel.
+  function getWorkspace(panel: BlocklyPanel): Blockly.WorkspaceSvg {
+    return Blockly.Workspace.getAll().find(
+      workspace =>
+        workspace instanceof Blockly.WorkspaceSvg &&
+        !workspace.isFlyout &&
+        panel.node.contains(workspace.getInjectionDiv())
+    ) as Blockly.WorkspaceSvg;
+  }
+
+  // Save the file opened in a panel.
+  function save(context: Context): PartialJSONObject {
+    context.saveState.emit('started');
+    return context.content['metadata'] as PartialJSONObject;
+  }
+
+  function createFile(allowedBlocks: unknown): BlocklyFormat.Content {
+    return {
+      format: BlocklyFormat.currentVersion(),
+      workspace: {},
+      metadata: { toolbox: 'limits', allowed_blocks: allowedBlocks }
+    } as BlocklyFormat.Content;
+  }
+
+  describe('allowed blocks', () => {
+    it('should save and restore the limits of the blocks', async () => {
+      const context = new Context(
+        createFile({ text_print: 2, lists_getIndex: null })
+      );
+      const panel = await open(context);
+      expect(panel.manager.getMaxInstances()).toEqual({ text_print: 2 });
+      expect(getWorkspace(panel).remainingCapacityOfType('text_print')).toBe(2);
+
+      const metadata = save(context);
+      expect(metadata['allowed_blocks']).toEqual({
+        text_print: 2,
+        lists_getindex: null
+      });
+      const reopened = await open(new Context(context.content));
+      expect(reopened.manager.getMaxInstances()).toEqual({ text_print: 2 });
+      expect(reopened.manager.getAllowedBlocks()).toEqual([
+        'text_print',
+        'lists_getindex'
+      ]);
+    });
+
+    it('should save the allowed blocks without limits as a list', async () => {
+      const context = new Context(createFile(['text_print', 'lists_getIndex']));
+      await open(context);
+      expect(save(context)['allowed_blocks']).toEqual([
+        'text_print',
+        'lists_getindex'
+      ]);
+    });
+
+    it('should not save the allowed blocks without a list', async () => {
+      const context = new Context(createFile(undefined));
+      await open(context);
+      expect(save(context)['allowed_blocks']).toBeUndefined();
+    });
+  });
+
+  describe('tests', () => {
+    it('should save and restore the tests of the file', async () => {
+      const tests = [{ name: 'Count', code: 'assert count == 5' }];
+      const context = new Context({
+        ...createFile(undefined),
+        metadata: { tests }
+      });
+      const panel = await open(context);
+      expect(panel.manager.getTests()).toEqual(tests);
+      expect(save(context)['tests']).toEqual(tests);
+    });
+
+    it('should not save the tests without any', async () => {
+      const context = new Context(createFile(undefined));
+      const panel = await open(context);
+      expect(panel.manager.getTests()).toEqual([]);
+      expect(save(context)['tests']).toBeUndefined();
+    });
+  });
+});
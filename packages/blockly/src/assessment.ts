@@ -0,0 +1,152 @@
+import { Kernel, KernelMessage } from '@jupyterlab/services';
+
+import { PartialJSONObject } from '@lumino/coreutils';
+import { Widget } from '@lumino/widgets';
+
+/**
+ * The automated assessment of the exercises: the hidden tests of a
+ * document run in the kernel after its code, to check the results.
+ */
+export namespace Assessment {
+  /**
+   * A hidden test of a document.
+   */
+  export interface ITest extends PartialJSONObject {
+    /**
+     * The name of the test, shown in the results.
+     */
+    name: string;
+
+    /**
+     * The code of the test, in the language of the kernel. The test fails
+     * when the code raises an error, e.g. a failed assertion.
+     */
+    code: string;
+  }
+
+  /**
+   * The result of a test.
+   */
+  export interface IResult {
+    /**
+     * The name of the test.
+     */
+    name: string;
+
+    /**
+     * Whether the test passed.
+     */
+    passed: boolean;
+
+    /**
+     * The error raised by a failed test, or the text printed by the test.
+     */
+    message: string;
+  }
+
+  /**
+   * Run the tests one after the other.
+   *
+   * @param kernel The kernel where the code of the document was executed.
+   * @param tests The tests.
+   * @returns The results of the tests.
+   */
+  export async function runTests(
+    kernel: Kernel.IKernelConnection,
+    tests: ITest[]
+  ): Promise<IResult[]> {
+    const results: IResult[] = [];
+    for (const test of tests) {
+      results.push(await Private.runTest(kernel, test));
+    }
+    return results;
+  }
+}
+
+/**
+ * A widget showing the results of the tests of a document.
+ */
+export class TestResults extends Widget {
+  /**
+   * Construct a `TestResults`.
+   */
+  constructor() {
+    super();
+    this.addClass('jp-blockly-testResults');
+    this.node.style.overflowY = 'auto';
+    this.hide();
+  }
+
+  /**
+   * Show the results of the tests, or hide the widget if there are none.
+   *
+   * @param results The results or null to clear them.
+   */
+  setResults(results: Assessment.IResult[] | null): void {
+    this.node.textContent = '';
+    if (!results?.length) {
+      this.hide();
+      return;
+    }
+
+    const passed = results.filter(result => result.passed).length;
+    const summary = document.createElement('div');
+    summary.className = 'jp-blockly-testSummary';
+    summary.textContent = `${passed} of ${results.length} tests passed`;
+    this.node.appendChild(summary);
+
+    const list = document.createElement('ul');
+    results.forEach(result => {
+      const item = document.createElement('li');
+      item.className = result.passed
+        ? 'jp-blockly-testPassed'
+        : 'jp-blockly-testFailed';
+      item.textContent = `${result.passed ? '✔' : '✘'} ${result.name}`;
+      if (result.message) {
+        const message = document.createElement('pre');
+        message.textContent = result.message;
+        item.appendChild(message);
+      }
+      list.appendChild(item);
+    });
+    this.node.appendChild(list);
+    this.show();
+  }
+}
+
+namespace Private {
+  /**
+   * Run a test without storing it in the history of the kernel.
+   */
+  export async function runTest(
+    kernel: Kernel.IKernelConnection,
+    test: Assessment.ITest
+  ): Promise<Assessment.IResult> {
+    let error: string | null = null;
+    const text: string[] = [];
+    const future = kernel.requestExecute({
+      code: test.code,
+      store_history: false,
+      stop_on_error: false
+    });
+    future.onIOPub = msg => {
+      if (KernelMessage.isErrorMsg(msg)) {
+        const { ename, evalue } = msg.content;
+        error = evalue ? `${ename}: ${evalue}` : ename;
+      } else if (KernelMessage.isStreamMsg(msg)) {
+        text.push(msg.content.text);
+      }
+    };
+    try {
+      const reply = await future.done;
+      const passed = error === null && reply.content.status === 'ok';
+      return {
+        name: test.name,
+        passed,
+        message: error ?? (passed ? text.join('') : 'The test was aborted')
+      };
+    } catch (reason) {
+      return { name: test.name, passed: false, message: String(reason) };
+    }
+  }
+}
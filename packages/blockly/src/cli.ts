@@ -0,0 +1,133 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { Headless } from './headless';
+import { BlocklyRegistry } from './registry';
+
+/**
+ * The usage of the command.
+ */
+const USAGE = `Usage: jupyterlab-blockly-generate [options] <file.jpblockly>...
+
+Print the code generated from Blockly files.
+
+Options:
+  -l, --language <language>  The language of the code (default: the language
+                             saved in the file or of its kernel, or python)
+  -b, --blocks <file>        A JSON file of block definitions to register, as
+                             an array or a toolbox file with a "blocks" key
+  -o, --output-dir <dir>     Write the code of each file in this directory
+                             instead of printing it
+  -h, --help                 Show this help
+`;
+
+/**
+ * The file extensions of the code by language.
+ */
+const EXTENSIONS: { [language: string]: string } = {
+  python: 'py',
+  javascript: 'js',
+  lua: 'lua'
+};
+
+/**
+ * The parsed command line arguments.
+ */
+interface IArguments {
+  language?: string;
+  blocks: string[];
+  outputDir?: string;
+  files: string[];
+}
+
+function parseArguments(argv: string[]): IArguments {
+  const args: IArguments = { blocks: [], files: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = (): string => {
+      if (i + 1 >= argv.length) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      return argv[++i];
+    };
+    switch (arg) {
+      case '-h':
+      case '--help':
+        process.stdout.write(USAGE);
+        process.exit(0);
+        break;
+      case '-l':
+      case '--language':
+        args.language = value();
+        break;
+      case '-b':
+      case '--blocks':
+        args.blocks.push(value());
+        break;
+      case '-o':
+      case '--output-dir':
+        args.outputDir = value();
+        break;
+      default:
+        if (arg.startsWith('-')) {
+          throw new Error(`Unknown option ${arg}`);
+        }
+        args.files.push(arg);
+    }
+  }
+  if (args.files.length === 0) {
+    throw new Error('No Blockly file given');
+  }
+  if (args.files.length > 1 && args.outputDir === undefined) {
+    throw new Error('An output directory is required for several files');
+  }
+  return args;
+}
+
+function main(): number {
+  let args: IArguments;
+  try {
+    args = parseArguments(process.argv.slice(2));
+  } catch (reason) {
+    process.stderr.write(`${(reason as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const registry = new BlocklyRegistry();
+  for (const file of args.blocks) {
+    try {
+      const definitions = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      registry.registerBlocks(
+        Array.isArray(definitions) ? definitions : definitions.blocks ?? []
+      );
+    } catch (reason) {
+      process.stderr.write(`${file}: ${(reason as Error).message}\n\n${USAGE}`);
+      return 2;
+    }
+  }
+
+  let status = 0;
+  for (const file of args.files) {
+    try {
+      const { language, code } = Headless.generateCode(
+        fs.readFileSync(file, 'utf-8'),
+        { registry, language: args.language }
+      );
+      if (args.outputDir === undefined) {
+        process.stdout.write(code);
+        continue;
+      }
+      const name = path.basename(file, path.extname(file));
+      const extension = EXTENSIONS[language] ?? language;
+      fs.mkdirSync(args.outputDir, { recursive: true });
+      fs.writeFileSync(path.join(args.outputDir, `${name}.${extension}`), code);
+    } catch (reason) {
+      process.stderr.write(`${file}: ${(reason as Error).message}\n`);
+      status = 1;
+    }
+  }
+  return status;
+}
+
+process.exitCode = main();
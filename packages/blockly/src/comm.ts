@@ -0,0 +1,245 @@
+import { ISessionContext, showErrorMessage } from '@jupyterlab/apputils';
+import { Kernel, KernelMessage } from '@jupyterlab/services';
+
+import { IChangedArgs } from '@jupyterlab/coreutils';
+import { IDisposable } from '@lumino/disposable';
+
+import type * as Blockly from 'blockly';
+import type { BlockDefinition } from 'blockly/core/blocks';
+import type { ToolboxDefinition } from 'blockly/core/utils/toolbox';
+
+import type { BlocklyLayout } from './layout';
+import { BlocklyManager } from './manager';
+
+/**
+ * The name of the comm target of the Blockly editors.
+ */
+export const COMM_TARGET = 'jupyterlab-blockly';
+
+/**
+ * KernelComm lets the code running in the kernel of an editor register
+ * blocks and toolboxes, and edit the workspace of the editor.
+ *
+ * The kernel opens a comm with the `jupyterlab-blockly` target and sends
+ * a request in each message, e.g. `{ "action": "add_block", "block": {...} }`.
+ * The editor replies with `{ "status": "ok" }`, or with an error status
+ * and message.
+ *
+ * The blocks and toolboxes are registered in the registry shared by all the
+ * editors, like the ones of the extensions, while the blocks are added to
+ * the workspace of this editor only.
+ */
+export class KernelComm implements IDisposable {
+  private _sessionContext: ISessionContext;
+  private _manager: BlocklyManager;
+  private _layout: BlocklyLayout;
+  private _kernel: Kernel.IKernelConnection | null = null;
+  private _isDisposed = false;
+
+  /**
+   * Construct a `KernelComm`.
+   *
+   * @param options The options of the comm.
+   */
+  constructor(options: KernelComm.IOptions) {
+    this._sessionContext = options.sessionContext;
+    this._manager = options.manager;
+    this._layout = options.layout;
+
+    this._setKernel(this._sessionContext.session?.kernel ?? null);
+    this._sessionContext.kernelChanged.connect(this._onKernelChanged, this);
+  }
+
+  /**
+   * Whether the comm is disposed.
+   */
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * Dispose of the resources held by the comm.
+   */
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    this._sessionContext.kernelChanged.disconnect(this._onKernelChanged, this);
+    this._setKernel(null);
+  }
+
+  /**
+   * Handle a request of the kernel.
+   *
+   * @returns The error message, or null if the request succeeded.
+   */
+  private _handleRequest(request: KernelComm.Request): string | null {
+    const registry = this._manager.registry;
+    switch (request.action) {
+      // The blocks and toolboxes are available in every editor
+      case 'register_blocks':
+        registry.registerBlocks(request.blocks);
+        return null;
+      case 'register_toolbox':
+        registry.registerToolbox(request.name, request.toolbox);
+        if (request.select) {
+          this._manager.setToolbox(request.name);
+        }
+        return null;
+      case 'add_block':
+        // The locks are only edited in authoring mode
+        if (!this._manager.getAuthoring() && Private.hasLock(request.block)) {
+          return 'The locks of the blocks cannot be edited.';
+        }
+        return this._layout.addBlock(request.block)
+          ? null
+          : 'The workspace is read-only.';
+      case 'load_workspace':
+        // Loading a workspace would remove the locked blocks
+        if (
+          !this._manager.getAuthoring() &&
+          Object.keys(this._layout.getLockedBlocks()).length
+        ) {
+          return 'The workspace has locked blocks.';
+        }
+        return this._layout.loadWorkspace(request.workspace)
+          ? null
+          : 'The workspace is read-only.';
+      default:
+        return `Unknown action: ${(request as { action?: string }).action}`;
+    }
+  }
+
+  private _setKernel(kernel: Kernel.IKernelConnection | null): void {
+    this._kernel?.removeCommTarget(COMM_TARGET, this._onCommOpen);
+    this._kernel = kernel;
+    this._kernel?.registerCommTarget(COMM_TARGET, this._onCommOpen);
+  }
+
+  private _onKernelChanged(
+    sender: ISessionContext,
+    args: IChangedArgs<
+      Kernel.IKernelConnection | null,
+      Kernel.IKernelConnection | null,
+      'kernel'
+    >
+  ): void {
+    this._setKernel(args.newValue);
+  }
+
+  private _onCommOpen = (comm: Kernel.IComm): void => {
+    comm.onMsg = (msg: KernelMessage.ICommMsgMsg) => {
+      const request = msg.content.data as unknown as KernelComm.Request;
+      let error: string | null;
+      try {
+        error = this._handleRequest(request);
+      } catch (reason) {
+        error = reason instanceof Error ? reason.message : String(reason);
+      }
+      if (error !== null) {
+        showErrorMessage('Blockly request from the kernel failed', error);
+      }
+      if (!comm.isDisposed) {
+        comm.send(
+          error === null
+            ? { status: 'ok' }
+            : { status: 'error', message: error }
+        );
+      }
+    };
+  };
+}
+
+/**
+ * A namespace for KernelComm statics.
+ */
+export namespace KernelComm {
+  /**
+   * The options used to create a `KernelComm`.
+   */
+  export interface IOptions {
+    /**
+     * The session context of the kernel of the editor.
+     */
+    sessionContext: ISessionContext;
+
+    /**
+     * The manager of the editor, selecting the toolbox.
+     */
+    manager: BlocklyManager;
+
+    /**
+     * The layout of the editor, holding the workspace.
+     */
+    layout: BlocklyLayout;
+  }
+
+  /**
+   * Register block definitions, including their code templates, in every
+   * editor.
+   */
+  export interface IRegisterBlocks {
+    action: 'register_blocks';
+    blocks: BlockDefinition[];
+  }
+
+  /**
+   * Register a toolbox in every editor, and optionally select it in this
+   * editor.
+   */
+  export interface IRegisterToolbox {
+    action: 'register_toolbox';
+    name: string;
+    toolbox: ToolboxDefinition;
+    select?: boolean;
+  }
+
+  /**
+   * Add a block serialized by Blockly to the workspace. Out of authoring
+   * mode, the block and its children cannot be locked.
+   */
+  export interface IAddBlock {
+    action: 'add_block';
+    block: Blockly.serialization.blocks.State;
+  }
+
+  /**
+   * Replace the workspace with a workspace serialized by Blockly. Out of
+   * authoring mode, the workspace cannot have locked blocks.
+   */
+  export interface ILoadWorkspace {
+    action: 'load_workspace';
+    workspace: { [key: string]: any };
+  }
+
+  /**
+   * A request of the kernel.
+   */
+  export type Request =
+    | IRegisterBlocks
+    | IRegisterToolbox
+    | IAddBlock
+    | ILoadWorkspace;
+}
+
+namespace Private {
+  /**
+   * Whether a serialized block or one of its children is locked.
+   */
+  export function hasLock(state: Blockly.serialization.blocks.State): boolean {
+    if (
+      state.deletable === false ||
+      state.movable === false ||
+      state.editable === false
+    ) {
+      return true;
+    }
+    const children = [...Object.values(state.inputs ?? {}), state.next ?? {}];
+    return children.some(
+      child =>
+        (child.block && hasLock(child.block)) ||
+        (child.shadow && hasLock(child.shadow))
+    );
+  }
+}
@@ -0,0 +1,338 @@
+import { IRenderMimeRegistry, renderMarkdown } from '@jupyterlab/rendermime';
+import { HTMLSelect, ReactWidget } from '@jupyterlab/ui-components';
+
+import React, { useEffect, useRef, useState } from 'react';
+
+import {
+  BlockInfo,
+  DynamicCategoryInfo,
+  StaticCategoryInfo,
+  ToolboxInfo,
+  ToolboxItemInfo
+} from 'blockly/core/utils/toolbox';
+
+import { BlocklyManager } from './manager';
+import { BlocklyEditor } from './widget';
+
+/**
+ * A side panel editing the exercise settings of the active Blockly editor:
+ * its description, its toolbox and the blocks allowed in the toolbox.
+ */
+export class ExerciseSettings extends ReactWidget {
+  private _editor: BlocklyEditor | null = null;
+  private _rendermime: IRenderMimeRegistry;
+
+  /**
+   * Construct an `ExerciseSettings`.
+   *
+   * @param rendermime The rendermime instance used to preview the description.
+   */
+  constructor(rendermime: IRenderMimeRegistry) {
+    super();
+    this.addClass('jp-blockly-exerciseSettings');
+    this._rendermime = rendermime;
+  }
+
+  /**
+   * The edited Blockly editor, or null if there is none.
+   */
+  get editor(): BlocklyEditor | null {
+    return this._editor;
+  }
+  set editor(editor: BlocklyEditor | null) {
+    if (this._editor === editor) {
+      return;
+    }
+    this._editor?.content.manager.changed.disconnect(this.update, this);
+    this._editor?.disposed.disconnect(this._onEditorDisposed, this);
+    this._editor = editor;
+    this._editor?.content.manager.changed.connect(this.update, this);
+    this._editor?.disposed.connect(this._onEditorDisposed, this);
+    this.update();
+  }
+
+  /**
+   * Dispose of the resources held by the widget.
+   */
+  dispose(): void {
+    this.editor = null;
+    super.dispose();
+  }
+
+  render(): JSX.Element {
+    if (!this._editor) {
+      return (
+        <div className="jp-blockly-exerciseSettings-placeholder">
+          Open a Blockly editor to edit its exercise settings.
+        </div>
+      );
+    }
+    const manager = this._editor.content.manager;
+    return (
+      <Private.Settings
+        manager={manager}
+        rendermime={this._rendermime}
+        onChange={this._onChange}
+      />
+    );
+  }
+
+  /**
+   * Mark the document as modified, the settings are saved in its metadata.
+   */
+  private _onChange = (): void => {
+    if (this._editor) {
+      this._editor.context.model.dirty = true;
+    }
+  };
+
+  private _onEditorDisposed(): void {
+    this.editor = null;
+  }
+}
+
+/**
+ * The rendered Markdown description, sanitized as the untrusted Markdown
+ * of the notebooks.
+ */
+function MarkdownPreview(props: {
+  source: string;
+  rendermime: IRenderMimeRegistry;
+}): JSX.Element {
+  const { source, rendermime } = props;
+  const host = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    if (!host.current) {
+      return;
+    }
+    renderMarkdown({
+      host: host.current,
+      source,
+      trusted: false,
+      sanitizer: rendermime.sanitizer,
+      resolver: rendermime.resolver,
+      linkHandler: rendermime.linkHandler,
+      shouldTypeset: true,
+      latexTypesetter: rendermime.latexTypesetter,
+      markdownParser: rendermime.markdownParser
+    }).catch(reason => {
+      console.error('Cannot render the description', reason);
+    });
+  }, [source, rendermime]);
+  return (
+    <div
+      ref={host}
+      className="jp-blockly-exerciseSettings-preview jp-RenderedHTMLCommon jp-RenderedMarkdown"
+    />
+  );
+}
+
+/**
+ * The properties of the tree of the blocks of the toolbox.
+ */
+interface IBlockTreeProps {
+  contents: ToolboxItemInfo[];
+  limits: BlocklyManager.BlockLimits | undefined;
+  setAllowed: (types: string[], allowed: boolean) => void;
+}
+
+/**
+ * The tree of the categories and blocks of the toolbox, with a checkbox
+ * allowing each of them. All the blocks are allowed when there are no
+ * limits, and the checkboxes are disabled.
+ */
+function BlockTree(props: IBlockTreeProps): JSX.Element {
+  const { contents, limits, setAllowed } = props;
+  const isAllowed = (type: string) => !limits || type in limits;
+
+  return (
+    <ul className="jp-blockly-blockTree">
+      {contents.map((itemInfo, index) => {
+        if (!('kind' in itemInfo)) {
+          return null;
+        }
+        const kind = itemInfo.kind.toUpperCase();
+        if (kind === 'CATEGORY' && 'contents' in itemInfo) {
+          const categoryInfo = itemInfo as StaticCategoryInfo;
+          const types = Private.listTypes(categoryInfo.contents);
+          const allowed = types.filter(isAllowed).length;
+          return (
+            <li key={index}>
+              <label>
+                <input
+                  type="checkbox"
+                  disabled={!limits || !types.length}
+                  checked={types.length > 0 && allowed === types.length}
+                  ref={input => {
+                    if (input) {
+                      input.indeterminate =
+                        allowed > 0 && allowed < types.length;
+                    }
+                  }}
+                  onChange={event => setAllowed(types, event.target.checked)}
+                />
+                {categoryInfo.name}
+              </label>
+              <BlockTree
+                contents={categoryInfo.contents}
+                limits={limits}
+                setAllowed={setAllowed}
+              />
+            </li>
+          );
+        }
+        let type: string;
+        let label: string;
+        if (kind === 'CATEGORY' && 'custom' in itemInfo) {
+          // The blocks of the dynamic categories are allowed together
+          const categoryInfo = itemInfo as DynamicCategoryInfo;
+          type = categoryInfo.custom.toLowerCase();
+          label = (categoryInfo as { name?: string }).name ?? type;
+        } else if (kind === 'BLOCK' && 'type' in itemInfo) {
+          type = (itemInfo as BlockInfo).type.toLowerCase();
+          label = type;
+        } else {
+          return null;
+        }
+        const limit = limits?.[type];
+        return (
+          <li key={index}>
+            <label>
+              <input
+                type="checkbox"
+                disabled={!limits}
+                checked={isAllowed(type)}
+                onChange={event => setAllowed([type], event.target.checked)}
+              />
+              {label}
+              {typeof limit === 'number' && (
+                <span className="jp-blockly-blockTree-limit">×{limit}</span>
+              )}
+            </label>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+namespace Private {
+  /**
+   * The properties of the settings form.
+   */
+  export interface ISettingsProps {
+    manager: BlocklyManager;
+    rendermime: IRenderMimeRegistry;
+    onChange: () => void;
+  }
+
+  /**
+   * The form editing the settings of a document.
+   */
+  export function Settings(props: ISettingsProps): JSX.Element {
+    const { manager, rendermime, onChange } = props;
+    const [preview, setPreview] = useState(false);
+    const description = manager.getDescription() ?? '';
+    const limits = manager.getBlockLimits();
+    const contents = (manager.toolbox as ToolboxInfo)?.contents ?? [];
+
+    const setAllowed = (types: string[], allowed: boolean) => {
+      const newLimits = { ...limits };
+      types.forEach(type => {
+        if (allowed) {
+          // Keep the limit of the blocks that were already allowed
+          newLimits[type] = newLimits[type] ?? null;
+        } else {
+          delete newLimits[type];
+        }
+      });
+      manager.setAllowedBlocks(newLimits);
+      onChange();
+    };
+
+    return (
+      <>
+        <fieldset disabled={!manager.getAuthoring()}>
+          <div className="jp-blockly-exerciseSettings-section">
+            <div className="jp-blockly-exerciseSettings-header">
+              <label>Description</label>
+              <button
+                className="jp-mod-styled"
+                onClick={() => setPreview(!preview)}
+              >
+                {preview ? 'Edit' : 'Preview'}
+              </button>
+            </div>
+            {preview ? (
+              <MarkdownPreview source={description} rendermime={rendermime} />
+            ) : (
+              <textarea
+                className="jp-mod-styled"
+                rows={8}
+                placeholder="The instructions of the exercise, in Markdown"
+                value={description}
+                onChange={event => {
+                  manager.setDescription(event.target.value);
+                  onChange();
+                }}
+              />
+            )}
+          </div>
+          <div className="jp-blockly-exerciseSettings-section">
+            <label>Toolbox</label>
+            <HTMLSelect
+              value={manager.getToolbox()}
+              options={manager.listToolboxes()}
+              onChange={event => {
+                manager.setToolbox(event.target.value);
+                onChange();
+              }}
+            />
+          </div>
+          <div className="jp-blockly-exerciseSettings-section">
+            <label>
+              <input
+                type="checkbox"
+                checked={limits !== undefined}
+                onChange={event => {
+                  manager.setAllowedBlocks(
+                    event.target.checked ? listTypes(contents) : undefined
+                  );
+                  onChange();
+                }}
+              />
+              Restrict the allowed blocks
+            </label>
+            <BlockTree
+              contents={contents}
+              limits={limits}
+              setAllowed={setAllowed}
+            />
+          </div>
+        </fieldset>
+      </>
+    );
+  }
+
+  /**
+   * List the block types of the contents of a toolbox, as they are
+   * matched against the allowed blocks.
+   */
+  export function listTypes(contents: ToolboxItemInfo[]): string[] {
+    const types: string[] = [];
+    contents.forEach(itemInfo => {
+      if (!('kind' in itemInfo)) {
+        return;
+      }
+      const kind = itemInfo.kind.toUpperCase();
+      if (kind === 'CATEGORY' && 'contents' in itemInfo) {
+        types.push(...listTypes((itemInfo as StaticCategoryInfo).contents));
+      } else if (kind === 'CATEGORY' && 'custom' in itemInfo) {
+        types.push((itemInfo as DynamicCategoryInfo).custom.toLowerCase());
+      } else if (kind === 'BLOCK' && 'type' in itemInfo) {
+        types.push((itemInfo as BlockInfo).type.toLowerCase());
+      }
+    });
+    return types;
+  }
+}
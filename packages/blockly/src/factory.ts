@@ -42,6 +42,16 @@ export class BlocklyEditorFactory extends ABCWidgetFactory<
     return this._registry;
   }
 
+  /**
+   * Whether the new editors clear the outputs before saving the document.
+   */
+  clearOutputsOnSave = false;
+
+  /**
+   * Whether the new editors edit the exercise settings of the documents.
+   */
+  authoring = false;
+
   /**
    * Create a new widget given a context.
    *
@@ -59,12 +69,14 @@ export class BlocklyEditorFactory extends ABCWidgetFactory<
       context.sessionContext,
       this._mimetypeService
     );
+    manager.setAuthoring(this.authoring);
     const content = new BlocklyPanel(
       context,
       manager,
       this._rendermime,
       this._factoryService
     );
+    content.clearOutputsOnSave = this.clearOutputsOnSave;
     return new BlocklyEditor({ context, content, manager });
   }
 }
@@ -0,0 +1,213 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+
+import format1 from './schema/format-1.json';
+import format2 from './schema/format-2.json';
+import format3 from './schema/format-3.json';
+
+/**
+ * The formats of the Blockly files and the migrations between them.
+ *
+ * Each format has a JSON schema validating the files and a migration
+ * upgrading the files of the previous format, so the files of any known
+ * format are upgraded to the current one when they are loaded.
+ */
+export namespace BlocklyFormat {
+  /**
+   * The content of a Blockly file.
+   */
+  export type Content = { [key: string]: any };
+
+  /**
+   * A format of the Blockly files.
+   */
+  export interface IFormat {
+    /**
+     * The version of the format.
+     */
+    version: number;
+
+    /**
+     * The JSON schema of the files.
+     */
+    schema: Content;
+
+    /**
+     * Upgrade the content of a file from the previous format.
+     */
+    upgrade?: (content: Content) => Content;
+  }
+
+  /**
+   * The error thrown when the content of a file is invalid.
+   */
+  export class ValidationError extends Error {
+    /**
+     * Construct a `ValidationError`.
+     *
+     * @param version The format of the file.
+     * @param errors The errors of the JSON schema validation.
+     */
+    constructor(version: number, errors: ErrorObject[]) {
+      super(
+        `Invalid Blockly file format ${version}:\n` +
+          errors
+            .map(error => `${error.instancePath || '/'}: ${error.message}`)
+            .join('\n')
+      );
+      this.name = 'ValidationError';
+      this.version = version;
+      this.errors = errors;
+    }
+
+    /**
+     * The format of the file.
+     */
+    readonly version: number;
+
+    /**
+     * The errors of the JSON schema validation, with the path of the
+     * offending keys.
+     */
+    readonly errors: ErrorObject[];
+  }
+
+  /**
+   * Register a format of the Blockly files.
+   *
+   * @param format The format, which becomes the current one if it is the
+   * latest.
+   */
+  export function registerFormat(format: IFormat): void {
+    Private.formats.set(format.version, format);
+    Private.validators.delete(format.version);
+  }
+
+  /**
+   * The version of the current format, used to save the files.
+   */
+  export function currentVersion(): number {
+    return Math.max(...Private.formats.keys());
+  }
+
+  /**
+   * Get the format of the content of a file.
+   *
+   * @param content The content of the file.
+   * @returns The version of the format, 1 for the legacy files
+   * holding the workspace directly.
+   */
+  export function getVersion(content: Content): number | undefined {
+    if (content['format'] === undefined && content['blocks']) {
+      return 1;
+    }
+    return content['format'];
+  }
+
+  /**
+   * Create the content of an empty file in the current format.
+   */
+  export function createEmpty(): Content {
+    return { format: currentVersion(), workspace: {}, metadata: {} };
+  }
+
+  /**
+   * Validate the content of a file against the schema of its format.
+   *
+   * @param content The content of the file.
+   * @param version The format of the file, detected by default.
+   *
+   * @throws {ValidationError} If the content is invalid.
+   * @throws {Error} If the format is not supported.
+   */
+  export function validate(content: Content, version?: number): void {
+    version = version ?? getVersion(content);
+    const validator = Private.getValidator(version);
+    if (!validator(content)) {
+      throw new ValidationError(version, validator.errors ?? []);
+    }
+  }
+
+  /**
+   * Upgrade the content of a file to the current format.
+   *
+   * The content is validated against the schema of each format along
+   * the way.
+   *
+   * @param content The content of the file.
+   * @returns The content in the current format.
+   *
+   * @throws {ValidationError} If the content is invalid.
+   * @throws {Error} If the format is not supported.
+   */
+  export function migrate(content: Content): Content {
+    let version = getVersion(content);
+    validate(content, version);
+    const current = currentVersion();
+    while (version < current) {
+      version++;
+      const format = Private.formats.get(version);
+      if (!format?.upgrade) {
+        throw new Error(`There is no migration to the format '${version}'.`);
+      }
+      content = format.upgrade(content);
+      validate(content, version);
+    }
+    return content;
+  }
+}
+
+namespace Private {
+  /**
+   * The formats by version.
+   */
+  export const formats = new Map<number, BlocklyFormat.IFormat>();
+
+  /**
+   * The compiled schemas by version.
+   */
+  export const validators = new Map<number, ValidateFunction>();
+
+  const ajv = new Ajv({ allErrors: true });
+
+  /**
+   * Get the validator of a format.
+   */
+  export function getValidator(version: number | undefined): ValidateFunction {
+    const format = formats.get(version);
+    if (!format) {
+      throw new Error(`The file format '${version}' is not supported.`);
+    }
+    if (!validators.has(version)) {
+      validators.set(version, ajv.compile(format.schema));
+    }
+    return validators.get(version);
+  }
+}
+
+// The legacy files hold the workspace directly.
+BlocklyFormat.registerFormat({ version: 1, schema: format1 });
+
+// The workspace is moved under the "workspace" key, next to the metadata.
+BlocklyFormat.registerFormat({
+  version: 2,
+  schema: format2,
+  upgrade: content => ({ format: 2, workspace: content, metadata: {} })
+});
+
+// The metadata is required, the description is always a string and the
+// kernel is null when there is none.
+BlocklyFormat.registerFormat({
+  version: 3,
+  schema: format3,
+  upgrade: content => {
+    const metadata = { ...content['metadata'] };
+    if (Array.isArray(metadata['description'])) {
+      // Descriptions could be defined as an array like a notebook markdown cell
+      metadata['description'] = metadata['description'].join('');
+    }
+    if (metadata['kernel'] === 'No kernel') {
+      metadata['kernel'] = null;
+    }
+    return { ...content, format: 3, metadata };
+  }
+});
@@ -0,0 +1,114 @@
+import * as Blockly from 'blockly';
+
+import { BlocklyFormat } from './format';
+import { BlocklyRegistry } from './registry';
+import { getToplevelInit } from './utils';
+
+/**
+ * Generate the code of Blockly files without a browser, e.g. to grade
+ * submissions in a CI or to convert them with an nbconvert-style exporter.
+ */
+export namespace Headless {
+  /**
+   * The languages of the known kernels, by kernel name. The code of the
+   * files following the language of their kernel is generated in it.
+   */
+  export const kernelLanguages = new Map<string, string>([
+    ['python3', 'python'],
+    ['xpython', 'python'],
+    ['xlua', 'lua'],
+    ['javascript', 'javascript']
+  ]);
+
+  /**
+   * The options to generate the code of a Blockly file.
+   */
+  export interface IOptions {
+    /**
+     * The registry holding the blocks and the generators, a new one
+     * with the built-in blocks and generators by default.
+     */
+    registry?: BlocklyRegistry;
+
+    /**
+     * The language of the generated code. Defaults to the language saved in
+     * the file, then to the language of its kernel, then to Python.
+     * The language of an unknown kernel cannot be guessed.
+     */
+    language?: string;
+  }
+
+  /**
+   * The code generated from a Blockly file.
+   */
+  export interface IResult {
+    /**
+     * The language of the code.
+     */
+    language: string;
+
+    /**
+     * The code, including the toplevel_init code of the blocks.
+     */
+    code: string;
+  }
+
+  /**
+   * Generate the code of a Blockly file.
+   *
+   * @param content The content of the file, parsed or as a JSON string.
+   * @param options The generation options.
+   * @returns The generated code and its language.
+   */
+  export function generateCode(
+    content: string | { [key: string]: any },
+    options: IOptions = {}
+  ): IResult {
+    const fileContent =
+      typeof content === 'string' ? JSON.parse(content) : content;
+    const registry = options.registry ?? new BlocklyRegistry();
+
+    // Upgrade the files of the previous formats
+    const { workspace: state, metadata } = BlocklyFormat.migrate(fileContent);
+
+    const language =
+      options.language ??
+      metadata['language'] ??
+      Private.getKernelLanguage(metadata['kernel']);
+    const generator = registry.generators.get(language);
+    if (!generator) {
+      throw new Error(`There is no generator for the language '${language}'.`);
+    }
+
+    const workspace = new Blockly.Workspace();
+    try {
+      Blockly.serialization.workspaces.load(state, workspace);
+      const code =
+        getToplevelInit(workspace.getAllBlocks(true)) +
+        generator.workspaceToCode(workspace);
+      return { language, code };
+    } finally {
+      workspace.dispose();
+    }
+  }
+}
+
+namespace Private {
+  /**
+   * Get the language of the code of a file following its kernel.
+   *
+   * @param kernel The name of the kernel saved in the file, if any.
+   */
+  export function getKernelLanguage(kernel: string | null | undefined): string {
+    if (!kernel) {
+      return 'python';
+    }
+    const language = Headless.kernelLanguages.get(kernel);
+    if (language === undefined) {
+      throw new Error(
+        `The language of the kernel '${kernel}' is unknown, set the language of the code.`
+      );
+    }
+    return language;
+  }
+}
@@ -0,0 +1,155 @@
+import * as Blockly from 'blockly';
+
+/**
+ * Render the blocks of a workspace as standalone images, e.g. to
+ * illustrate the documentation of an exercise.
+ */
+export namespace WorkspaceImage {
+  /**
+   * Render the blocks as an SVG document.
+   *
+   * The styles of Blockly are embedded in the document, with the CSS
+   * variables of the theme resolved to their current values, so the image
+   * looks the same outside of JupyterLab.
+   *
+   * @param workspace The workspace.
+   * @param block The top block of the stack to render, the whole
+   * workspace by default.
+   * @returns The SVG document, or null if there are no blocks.
+   */
+  export function toSvg(
+    workspace: Blockly.WorkspaceSvg,
+    block?: Blockly.BlockSvg
+  ): string | null {
+    if (!block && !workspace.getTopBlocks(false).length) {
+      return null;
+    }
+    const box = block
+      ? block.getBoundingRectangle()
+      : workspace.getBlocksBoundingBox();
+    const style = getComputedStyle(workspace.getInjectionDiv());
+    const resolve = (value: string) => Private.resolveVariables(value, style);
+
+    // The blocks are in workspace coordinates, without the scroll and
+    // the scale of the canvas
+    const content = (
+      block ? block.getSvgRoot() : workspace.getCanvas()
+    ).cloneNode(true) as SVGElement;
+    if (!block) {
+      content.removeAttribute('transform');
+    }
+    content
+      .querySelectorAll('.blocklyPathSelected')
+      .forEach(path => path.remove());
+    content
+      .querySelectorAll('.blocklySelected, .blocklyHighlighted')
+      .forEach(element =>
+        element.classList.remove('blocklySelected', 'blocklyHighlighted')
+      );
+
+    const width = box.right - box.left + 2 * Private.PADDING;
+    const height = box.bottom - box.top + 2 * Private.PADDING;
+    // The namespaces are declared by the serializer, declaring them again
+    // in attributes would make the document invalid
+    const svg = Blockly.utils.dom.createSvgElement(Blockly.utils.Svg.SVG, {
+      width,
+      height,
+      viewBox: `${box.left - Private.PADDING} ${
+        box.top - Private.PADDING
+      } ${width} ${height}`
+    });
+    // The styles of the renderer and the theme apply to these classes
+    svg.setAttribute(
+      'class',
+      `blocklySvg ${workspace.getInjectionDiv().className}`
+    );
+
+    const css = document.createElementNS(Blockly.utils.dom.SVG_NS, 'style');
+    css.textContent = resolve(Private.getBlocklyStyles());
+    svg.appendChild(css);
+    Blockly.utils.dom.createSvgElement(
+      Blockly.utils.Svg.RECT,
+      {
+        x: box.left - Private.PADDING,
+        y: box.top - Private.PADDING,
+        width,
+        height,
+        fill: resolve(
+          workspace.getTheme().getComponentStyle('workspaceBackgroundColour') ??
+            '#fff'
+        )
+      },
+      svg
+    );
+    svg.appendChild(content);
+
+    // The attributes of the blocks may refer to the variables of the theme
+    [svg, ...Array.from(svg.querySelectorAll('*'))].forEach(element =>
+      Array.from(element.attributes).forEach(attribute => {
+        if (attribute.value.includes('var(')) {
+          element.setAttribute(attribute.name, resolve(attribute.value));
+        }
+      })
+    );
+    return new XMLSerializer().serializeToString(svg);
+  }
+
+  /**
+   * Render an SVG document as a PNG image.
+   *
+   * @param svg The SVG document.
+   * @param scale The scale of the image, 2 by default for high
+   * resolution screens.
+   * @returns The PNG image encoded in base64.
+   */
+  export async function toPng(svg: string, scale = 2): Promise<string> {
+    const image = new Image();
+    await new Promise((resolve, reject) => {
+      image.onload = resolve;
+      image.onerror = () => reject(new Error('The SVG image is invalid.'));
+      image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(image.width * scale);
+    canvas.height = Math.ceil(image.height * scale);
+    const context = canvas.getContext('2d');
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0);
+    return canvas.toDataURL('image/png').split(',')[1];
+  }
+}
+
+namespace Private {
+  /**
+   * The margin around the blocks, in pixels.
+   */
+  export const PADDING = 10;
+
+  /**
+   * Get the styles injected by Blockly in the document, for its
+   * common elements and for each renderer.
+   */
+  export function getBlocklyStyles(): string {
+    return Array.from(
+      document.querySelectorAll<HTMLStyleElement>('style[id^="blockly-"]')
+    )
+      .map(style => style.textContent)
+      .join('\n');
+  }
+
+  /**
+   * Replace the CSS variables by their values, or by their fallback
+   * values if they are not defined.
+   */
+  export function resolveVariables(
+    value: string,
+    style: CSSStyleDeclaration
+  ): string {
+    return value.replace(
+      /var\(\s*(--[\w-]+)\s*(?:,\s*([^)]*))?\)/g,
+      (match, name: string, fallback?: string) =>
+        style.getPropertyValue(name).trim() || fallback?.trim() || match
+    );
+  }
+}
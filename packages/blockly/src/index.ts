@@ -1,7 +1,19 @@
+export * from './assessment';
+export * from './comm';
+export * from './exercise';
 export * from './factory';
+export * from './format';
+export * from './headless';
+export * from './image';
+export * from './inspector';
 export * from './layout';
 export * from './manager';
+export * from './mimerenderer';
 export * from './registry';
+export * from './search';
+export * from './sourcemap';
+export * from './stepper';
+export * from './sync';
 export * from './token';
 export * from './utils';
 export * from './widget';
@@ -0,0 +1,123 @@
+import { Kernel } from '@jupyterlab/services';
+
+import { Widget } from '@lumino/widgets';
+
+/**
+ * A widget showing the values of the variables of the workspace in the
+ * kernel, after the code is run.
+ */
+export class VariableInspector extends Widget {
+  private _variables: VariableInspector.IVariable[] = [];
+
+  /**
+   * Construct a `VariableInspector`.
+   */
+  constructor() {
+    super();
+    this.addClass('jp-blockly-variableInspector');
+    this.node.style.overflowY = 'auto';
+    this.hide();
+  }
+
+  /**
+   * The variables shown in the inspector.
+   */
+  get variables(): VariableInspector.IVariable[] {
+    return this._variables;
+  }
+
+  /**
+   * Show the values of the variables, or hide the widget if there are none.
+   *
+   * @param variables The variables or null to clear them.
+   */
+  setVariables(variables: VariableInspector.IVariable[] | null): void {
+    this._variables = variables ?? [];
+    this.node.textContent = '';
+    if (!this._variables.length) {
+      this.hide();
+      return;
+    }
+
+    const table = document.createElement('table');
+    const header = table.createTHead().insertRow();
+    ['Variable', 'Value'].forEach(title => {
+      const cell = document.createElement('th');
+      cell.textContent = title;
+      header.appendChild(cell);
+    });
+    const body = table.createTBody();
+    this._variables.forEach(variable => {
+      const row = body.insertRow();
+      row.insertCell().textContent = variable.name;
+      const value = row.insertCell();
+      if (variable.value === null) {
+        value.className = 'jp-blockly-variableUndefined';
+        value.textContent = 'not defined';
+      } else {
+        value.textContent = variable.value;
+      }
+    });
+    this.node.appendChild(table);
+    this.show();
+  }
+}
+
+/**
+ * A namespace for VariableInspector statics.
+ */
+export namespace VariableInspector {
+  /**
+   * A variable of the workspace.
+   */
+  export interface IVariable {
+    /**
+     * The name of the variable in the workspace.
+     */
+    name: string;
+
+    /**
+     * The representation of the value of the variable in the kernel, or
+     * null if the variable is not defined.
+     */
+    value: string | null;
+  }
+
+  /**
+   * Get the values of some variables from the kernel, without running
+   * any code or storing the request in the history of the kernel.
+   *
+   * @param kernel The kernel where the code of the document was executed.
+   * @param names The names of the variables in the workspace, by their
+   * name in the generated code.
+   * @returns The variables with their values.
+   */
+  export async function inspect(
+    kernel: Kernel.IKernelConnection,
+    names: Map<string, string>
+  ): Promise<IVariable[]> {
+    const expressions: { [name: string]: string } = {};
+    names.forEach((name, codeName) => {
+      expressions[codeName] = codeName;
+    });
+    const reply = await kernel.requestExecute({
+      code: '',
+      silent: true,
+      store_history: false,
+      user_expressions: expressions
+    }).done;
+
+    const results =
+      reply.content.status === 'ok' ? reply.content.user_expressions : {};
+    const variables: IVariable[] = [];
+    names.forEach((name, codeName) => {
+      const result = results[codeName] as { [key: string]: any } | undefined;
+      variables.push({
+        name,
+        value:
+          result?.status === 'ok' ? result.data?.['text/plain'] ?? '' : null
+      });
+    });
+    return variables;
+  }
+}
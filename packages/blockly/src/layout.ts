@@ -1,28 +1,59 @@
+import { ISharedFile } from '@jupyter/ydoc';
 import { IRenderMimeRegistry } from '@jupyterlab/rendermime';
+import { IOutputAreaModel } from '@jupyterlab/outputarea';
 import { ISessionContext, showErrorMessage } from '@jupyterlab/apputils';
 import { Cell, CodeCell, CodeCellModel } from '@jupyterlab/cells';
 import { IEditorFactoryService } from '@jupyterlab/codeeditor';
+import * as nbformat from '@jupyterlab/nbformat';
 
+import { PartialJSONObject } from '@lumino/coreutils';
 import { Message } from '@lumino/messaging';
-import { SplitLayout, SplitPanel, Widget } from '@lumino/widgets';
-import { Signal } from '@lumino/signaling';
+import { Panel, SplitLayout, SplitPanel, Widget } from '@lumino/widgets';
+import { ISignal, Signal } from '@lumino/signaling';
 
 import * as Blockly from 'blockly';
 
+import { Assessment, TestResults } from './assessment';
+import { KernelComm } from './comm';
+import { WorkspaceImage } from './image';
+import { VariableInspector } from './inspector';
 import { BlocklyManager } from './manager';
-import { THEME } from './utils';
+import { ToolboxSearchCategory } from './search';
+import { SourceMap } from './sourcemap';
+import { Stepper } from './stepper';
+import { WorkspaceSync } from './sync';
+import { THEME, getToplevelInit } from './utils';
 
 /**
  * A blockly layout to host the Blockly editor.
  */
 export class BlocklyLayout extends SplitLayout {
+  // The block copied by the user, shared between the workspaces
+  private static _clipboard: Blockly.ICopyData | null = null;
   private _rendermime: IRenderMimeRegistry;
   private _host: Widget;
   private _manager: BlocklyManager;
   private _workspace: Blockly.WorkspaceSvg;
   private _sessionContext: ISessionContext;
   private _cell: CodeCell;
+  private _stacks: Panel;
+  private _stackCells: Map<string, CodeCell>;
+  private _sourceMaps: Map<CodeCell, SourceMap>;
+  private _errors: Map<CodeCell, string>;
+  private _selected: string | null;
   private _description: Widget;
+  private _testResults: TestResults;
+  private _inspector: VariableInspector;
+  private _factoryService: IEditorFactoryService;
+  private _sync: WorkspaceSync | null;
+  private _stepper: Stepper;
+  private _comm: KernelComm;
+  private _runs: number;
+  private _pendingRun: Promise<void> | null;
+  private _runState: BlocklyLayout.IRunState;
+  private _runStateChanged: Signal<this, BlocklyLayout.IRunState>;
+  private _liveTimer: ReturnType<typeof setTimeout> | null;
+  private _workspaceChanged: Signal<this, void>;
 
   /**
    * Construct a `BlocklyLayout`.
@@ -38,35 +69,56 @@ export class BlocklyLayout extends SplitLayout {
     this._rendermime = rendermime;
     this._manager = manager;
     this._sessionContext = sessionContext;
+    this._factoryService = factoryService;
 
     // The widget that shows the description
     this._description = new Widget();
     this._description.addClass('jp-blockly-description');
     this._description.node.style.overflowY = 'auto';
 
+    // The widget that shows the results of the tests, under the description
+    this._testResults = new TestResults();
+
     // Creating the container for the Blockly editor
     // and the output area to render the execution replies.
     this._host = new Widget();
 
+    // The widget that shows the values of the variables, under the workspace
+    this._inspector = new VariableInspector();
+
     // Creating a CodeCell widget to render the code and
     // outputs from the execution reply.
-    this._cell = new CodeCell({
-      contentFactory: new Cell.ContentFactory({
-        editorFactory: factoryService.newInlineEditor
-      }),
-      model: new CodeCellModel(),
-      rendermime,
-      placeholder: false
-    }).initializeState();
+    this._cell = this._createCell();
 
-    // Trust the outputs and set the mimeType for the code
-    this._cell.addClass('jp-blockly-codeCell');
-    this._cell.readOnly = true;
-    this._cell.model.trusted = true;
-    this._cell.model.mimeType = this._manager.mimeType;
-    // adding the style to the element as a quick fix
-    // we should make it work with the css class
-    this._cell.node.style.overflow = 'scroll';
+    // The container for the cells of each top-level block stack,
+    // only visible in 'stacks' run mode.
+    this._stacks = new Panel();
+    this._stacks.addClass('jp-blockly-stackCells');
+    this._stacks.node.style.overflowY = 'auto';
+    this._stacks.hide();
+    this._stackCells = new Map<string, CodeCell>();
+
+    // The source maps of the code in each cell and the block that
+    // raised an error in each cell, to link the code to the blocks.
+    this._sourceMaps = new Map<CodeCell, SourceMap>();
+    this._errors = new Map<CodeCell, string>();
+    this._selected = null;
+    this._sync = null;
+    this._runs = 0;
+    this._pendingRun = null;
+    this._runState = { running: false, executionCount: null, duration: null };
+    this._runStateChanged = new Signal<this, BlocklyLayout.IRunState>(this);
+    this._liveTimer = null;
+    this._workspaceChanged = new Signal<this, void>(this);
+
+    // Highlight the block about to run in step-by-step executions
+    this._stepper = new Stepper();
+    this._stepper.blockChanged.connect((sender, id) =>
+      this._workspace.highlightBlock(id)
+    );
+
+    // The requests of the code running in the kernel
+    this._comm = new KernelComm({ sessionContext, manager, layout: this });
 
     this._manager.changed.connect(this._onManagerChanged, this);
   }
@@ -78,6 +130,35 @@ export class BlocklyLayout extends SplitLayout {
     return this._cell;
   }
 
+  /**
+   * The step-by-step execution of the code.
+   */
+  get stepper(): Stepper {
+    return this._stepper;
+  }
+
+  /**
+   * The state of the last run of the code.
+   */
+  get runState(): BlocklyLayout.IRunState {
+    return this._runState;
+  }
+
+  /**
+   * Signal emitted when a run of the code starts or ends.
+   */
+  get runStateChanged(): ISignal<this, BlocklyLayout.IRunState> {
+    return this._runStateChanged;
+  }
+
+  /**
+   * Signal emitted when the blocks or variables of the workspace are
+   * changed locally, not by the shared model of the document.
+   */
+  get workspaceChanged(): ISignal<this, void> {
+    return this._workspaceChanged;
+  }
+
   /*
    * The current workspace.
    */
@@ -92,9 +173,214 @@ export class BlocklyLayout extends SplitLayout {
    */
   set workspace(workspace: Blockly.Workspace) {
     const data = workspace === null ? { variables: [] } : workspace;
-    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-    // @ts-ignore
-    Blockly.serialization.workspaces.load(data, this._workspace);
+    // Loading a workspace is not a change of the document
+    Blockly.Events.disable();
+    try {
+      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+      // @ts-ignore
+      Blockly.serialization.workspaces.load(data, this._workspace);
+    } finally {
+      Blockly.Events.enable();
+    }
+    this._updateCode();
+  }
+
+  /**
+   * Whether the workspace is read-only.
+   */
+  get readOnly(): boolean {
+    return this._workspace?.options.readOnly ?? false;
+  }
+
+  /**
+   * Whether the locks of the blocks can be changed, in authoring mode.
+   */
+  get authoring(): boolean {
+    return this._manager.getAuthoring();
+  }
+
+  /**
+   * Undo the last change of the workspace.
+   */
+  undo(): void {
+    if (this.readOnly) {
+      return;
+    }
+    this._workspace.undo(false);
+  }
+
+  /**
+   * Redo the last undone change of the workspace.
+   */
+  redo(): void {
+    if (this.readOnly) {
+      return;
+    }
+    this._workspace.undo(true);
+  }
+
+  /**
+   * Whether there are changes to undo.
+   */
+  canUndo(): boolean {
+    return this._workspace?.getUndoStack().length > 0;
+  }
+
+  /**
+   * Whether there are undone changes to redo.
+   */
+  canRedo(): boolean {
+    return this._workspace?.getRedoStack().length > 0;
+  }
+
+  /**
+   * Copy the selected block to the clipboard.
+   */
+  copy(): void {
+    const block = this._getSelectedBlock();
+    if (block && block.isDeletable() && block.isMovable()) {
+      BlocklyLayout._clipboard = block.toCopyData();
+    }
+  }
+
+  /**
+   * Paste the block in the clipboard into the workspace.
+   */
+  paste(): void {
+    if (BlocklyLayout._clipboard && !this.readOnly) {
+      Blockly.clipboard.paste(BlocklyLayout._clipboard, this._workspace);
+    }
+  }
+
+  /**
+   * Delete the selected block.
+   */
+  deleteSelected(): void {
+    const block = this._getSelectedBlock();
+    if (block && block.isDeletable()) {
+      block.checkAndDelete();
+    }
+  }
+
+  /**
+   * Add a block to the workspace as an edit of the document, which can be
+   * undone, e.g. a block pushed from the kernel.
+   *
+   * @param state The block serialized by Blockly. Without a position, it is
+   * added under the other blocks.
+   * @returns Whether the block was added, false if the workspace is
+   * read-only.
+   */
+  addBlock(state: Blockly.serialization.blocks.State): boolean {
+    if (!this._workspace || this.readOnly) {
+      return false;
+    }
+    const hasBlocks = this._workspace.getTopBlocks(false).length > 0;
+    const box = this._workspace.getBlocksBoundingBox();
+    // The creation and the move of the block are undone together
+    Blockly.Events.setGroup(true);
+    try {
+      const block = Blockly.serialization.blocks.append(
+        state,
+        this._workspace,
+        { recordUndo: true }
+      ) as Blockly.BlockSvg;
+      if (hasBlocks && state.x === undefined && state.y === undefined) {
+        block.moveBy(box.left, box.bottom + Private.BLOCK_SPACING);
+      }
+      this._workspace.centerOnBlock(block.id);
+    } finally {
+      Blockly.Events.setGroup(false);
+    }
+    return true;
+  }
+
+  /**
+   * Replace the blocks of the workspace as an edit of the document, which
+   * can be undone, unlike setting `workspace`.
+   *
+   * @param state The workspace serialized by Blockly.
+   * @returns Whether the workspace was loaded, false if it is read-only.
+   */
+  loadWorkspace(state: { [key: string]: any }): boolean {
+    if (!this._workspace || this.readOnly) {
+      return false;
+    }
+    Blockly.Events.setGroup(true);
+    try {
+      Blockly.serialization.workspaces.load(state, this._workspace, {
+        recordUndo: true
+      });
+    } finally {
+      Blockly.Events.setGroup(false);
+    }
+    return true;
+  }
+
+  /**
+   * Whether a block of the workspace is selected.
+   */
+  hasSelection(): boolean {
+    return this._getSelectedBlock() !== null;
+  }
+
+  /**
+   * Render the blocks as an SVG image, styled with the current theme.
+   *
+   * @param selectedStack Whether to render only the stack of the selected
+   * block, instead of the whole workspace.
+   * @returns The SVG document, or null if there is nothing to render.
+   */
+  toSvg(selectedStack = false): string | null {
+    if (!selectedStack) {
+      return WorkspaceImage.toSvg(this._workspace);
+    }
+    const block = this._getSelectedBlock();
+    return block
+      ? WorkspaceImage.toSvg(this._workspace, block.getRootBlock())
+      : null;
+  }
+
+  /**
+   * Render the blocks as a PNG image, styled with the current theme.
+   *
+   * @param selectedStack Whether to render only the stack of the selected
+   * block, instead of the whole workspace.
+   * @returns The PNG image encoded in base64, or null if there is nothing
+   * to render.
+   */
+  async toPng(selectedStack = false): Promise<string | null> {
+    const svg = this.toSvg(selectedStack);
+    return svg ? WorkspaceImage.toPng(svg) : null;
+  }
+
+  /**
+   * Whether there is a block in the clipboard.
+   */
+  canPaste(): boolean {
+    return BlocklyLayout._clipboard !== null;
+  }
+
+  /**
+   * Synchronize the workspace with the shared model of the document, so
+   * the edits are shared live between its views and collaborators.
+   *
+   * @param sharedModel The shared model of the document.
+   * @param lastModified The last modified time of the file the workspace
+   * was loaded from, or null if it is unknown.
+   */
+  bindSharedModel(sharedModel: ISharedFile, lastModified: string | null): void {
+    this._sync?.dispose();
+    this._sync = new WorkspaceSync(this._workspace, sharedModel, lastModified);
+  }
+
+  /**
+   * Record the last modified time of the file the workspace was saved to.
+   *
+   * @param lastModified The last modified time of the file.
+   */
+  setLastModified(lastModified: string | null): void {
+    this._sync?.setLastModified(lastModified);
   }
 
   /**
@@ -102,6 +388,12 @@ export class BlocklyLayout extends SplitLayout {
    */
   dispose(): void {
     this._manager.changed.disconnect(this._resizeWorkspace, this);
+    Private.layouts.delete(this._workspace);
+    this._sync?.dispose();
+    this._comm.dispose();
+    this._stepper.stop();
+    Signal.clearData(this._stepper);
+    clearTimeout(this._liveTimer);
     Signal.clearData(this);
     this._workspace.dispose();
     super.dispose();
@@ -113,9 +405,12 @@ export class BlocklyLayout extends SplitLayout {
   init(): void {
     super.init();
     this.addWidget(this._description);
+    this.addWidget(this._testResults);
     // Add the blockly container into the DOM
     this.addWidget(this._host);
+    this.addWidget(this._inspector);
     this.addWidget(this._cell);
+    this.addWidget(this._stacks);
   }
 
   /**
@@ -143,56 +438,261 @@ export class BlocklyLayout extends SplitLayout {
    * Blockly.Blocks['block_name'].toplevel_init = `import numpy`
    */
   getBlocksToplevelInit(): string {
-    // Initalize string which will return the extra code provided
-    // by the blocks, in the toplevel_init property.
-    let finalToplevelInit = '';
-
     // Get all the blocks in the workspace in order.
     const ordered = true;
     const used_blocks = this._workspace.getAllBlocks(ordered);
+    return getToplevelInit(used_blocks);
+  }
 
-    // For each block in the workspace, check if theres is a toplevel_init,
-    // if there is, add it to the final string.
-    for (const block in used_blocks) {
-      const current_block = used_blocks[block].type;
-      if (Blockly.Blocks[current_block].toplevel_init) {
-        // console.log(Blockly.Blocks[current_block].toplevel_init);
-        // Attach it to the final string
-        const string = Blockly.Blocks[current_block].toplevel_init;
-        finalToplevelInit = finalToplevelInit + string;
-      }
+  /**
+   * Return the code generated from the blocks in the workspace
+   * using the selected generator, without the toplevel_init code.
+   */
+  getWorkspaceCode(): string {
+    return this._manager.generator.workspaceToCode(this._workspace);
+  }
+
+  /**
+   * Return the code generated from a top-level block stack using the
+   * selected generator, including the definitions it depends on
+   * (imports, functions) but not the declaration of the workspace
+   * variables, so running it does not reset the values set by other stacks.
+   *
+   * @param block The top block of the stack.
+   */
+  getStackCode(block: Blockly.Block): string {
+    const generator = this._manager.generator;
+    generator.init(this._workspace);
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-ignore
+    delete generator.definitions_['variables'];
+
+    let code = generator.blockToCode(block);
+    if (Array.isArray(code)) {
+      code = code[0];
+    }
+    if (code && block.outputConnection) {
+      code = generator.scrubNakedValue(code);
+    }
+    code = generator.finish(code);
+    generator.isInitialized = false;
+
+    const toplevelInit = getToplevelInit(block.getDescendants(true));
+    return toplevelInit + code.replace(/^\s+\n/, '').replace(/\n\s+$/, '\n');
+  }
+
+  /**
+   * Generates and runs the code from a top-level block stack.
+   *
+   * In 'stacks' run mode the code is executed in the cell of the stack,
+   * otherwise it is executed in the code cell of the workspace.
+   *
+   * @param block A block of the stack to run.
+   */
+  runStack(block: Blockly.Block): void {
+    if (!this._checkKernel()) {
+      return;
     }
-    // console.log(finalToplevelInit);
-    return finalToplevelInit;
+    const run = ++this._runs;
+    this._trackRun(this._runStack(block), () => run === this._runs);
   }
 
   /*
    * Generates and runs the code from the current workspace.
    */
   run(): void {
-    // Get extra code from the blocks in the workspace.
-    const extra_init = this.getBlocksToplevelInit();
-    // Serializing our workspace into the chosen language generator.
-    const code =
-      extra_init + this._manager.generator.workspaceToCode(this._workspace);
-    //const code = "import ipywidgets as widgets\nwidgets.IntSlider()";
-    this._cell.model.sharedModel.setSource(code);
+    this._updateCode();
 
-    // Execute the code using the kernel, by using a static method from the
-    // same class to make an execution request.
-    if (this._sessionContext.hasNoKernel) {
-      // Check whether there is a kernel
+    if (!this._checkKernel()) {
+      return;
+    }
+
+    // The rest of a run is cancelled when it is stopped or when a new
+    // run starts in live mode
+    const run = ++this._runs;
+    const isCurrent = () => run === this._runs;
+
+    let execution: Promise<void>;
+    if (this._manager.getRunMode() === 'stacks') {
+      // Run each stack in its own cell, one after the other.
+      const blocks = this._workspace.getTopBlocks(true);
+      execution = blocks.reduce(
+        (previous, block) =>
+          previous.then(() =>
+            isCurrent() ? this._runStack(block) : undefined
+          ),
+        Promise.resolve()
+      );
+    } else {
+      execution = this._execute(this._cell);
+    }
+    this._trackRun(execution, isCurrent);
+  }
+
+  /**
+   * Interrupt the running code, and cancel the rest of the run.
+   */
+  async stop(): Promise<void> {
+    if (!this._pendingRun) {
+      return;
+    }
+    this._runs++;
+    // The stepper interrupts the kernel waiting for the pending step
+    if (!this._stepper.stop()) {
+      await this._sessionContext.session?.kernel?.interrupt();
+    }
+  }
+
+  /**
+   * Generates and runs the code from the current workspace step by step,
+   * pausing before the first block. The block about to run is highlighted
+   * and the execution continues with the stepper.
+   */
+  debug(): void {
+    if (this._stepper.state !== 'idle') {
+      return;
+    }
+    this._updateCode();
+
+    if (!this._checkKernel()) {
+      return;
+    }
+    const generator = this._manager.generator;
+    const language = this._manager.language;
+    if (!Stepper.isSupported(language)) {
       showErrorMessage(
-        'Select a valid kernel',
-        `There is not a valid kernel selected, select one from the dropdown menu in the toolbar.
-        If there isn't a valid kernel please install 'xeus-python' from Pypi.org or using mamba.
-        `
+        'Step-by-step execution unavailable',
+        `The code generated in ${language} cannot be run step by step.`
+      );
+      return;
+    }
+
+    const run = ++this._runs;
+    const isCurrent = () => run === this._runs;
+
+    let execution: Promise<void>;
+    this._stepper.start();
+    if (this._manager.getRunMode() === 'stacks') {
+      // Run each stack in its own cell, one after the other.
+      const blocks = this._workspace.getTopBlocks(true);
+      execution = blocks.reduce(
+        (previous, block) =>
+          previous.then(() =>
+            isCurrent()
+              ? this._debug(
+                  this._stackCells.get(block.id),
+                  Stepper.instrument(generator, language, () =>
+                    this.getStackCode(block)
+                  )
+                )
+              : undefined
+          ),
+        Promise.resolve()
       );
     } else {
-      CodeCell.execute(this._cell, this._sessionContext)
-        .then(() => this._resizeWorkspace())
-        .catch(e => console.error(e));
+      execution = this._debug(
+        this._cell,
+        Stepper.instrument(
+          generator,
+          language,
+          () =>
+            this.getBlocksToplevelInit() +
+            generator.workspaceToCode(this._workspace)
+        )
+      );
     }
+    this._trackRun(
+      execution.finally(() => this._stepper.stop()),
+      isCurrent
+    );
+  }
+
+  /**
+   * Get the outputs of the code cells.
+   *
+   * @returns The outputs of the workspace cell and of the cell of each
+   * top-level block stack, by the id of its top block.
+   */
+  getOutputs(): BlocklyLayout.IOutputs {
+    const stacks: { [id: string]: nbformat.IOutput[] } = {};
+    this._stackCells.forEach((cell, id) => {
+      if (cell.model.outputs.length) {
+        stacks[id] = cell.model.outputs.toJSON();
+      }
+    });
+    return { workspace: this._cell.model.outputs.toJSON(), stacks };
+  }
+
+  /**
+   * Restore the outputs of the code cells.
+   *
+   * @param outputs The outputs of the workspace cell and of the cell of
+   * each top-level block stack, by the id of its top block.
+   */
+  setOutputs(outputs: BlocklyLayout.IOutputs): void {
+    this._setOutputs(this._cell, outputs.workspace ?? []);
+    Object.entries(outputs.stacks ?? {}).forEach(([id, stackOutputs]) => {
+      if (!this._workspace.getBlockById(id)) {
+        return;
+      }
+      let cell = this._stackCells.get(id);
+      if (!cell) {
+        cell = this._createCell();
+        this._stackCells.set(id, cell);
+      }
+      this._setOutputs(cell, stackOutputs);
+    });
+  }
+
+  /**
+   * Get the locks of the blocks which cannot be deleted, moved or edited.
+   *
+   * @returns The locks by block id.
+   */
+  getLockedBlocks(): BlocklyLayout.LockedBlocks {
+    const locks: BlocklyLayout.LockedBlocks = {};
+    this._workspace.getAllBlocks(false).forEach(block => {
+      const lock = Private.getLock(block);
+      if (lock) {
+        locks[block.id] = lock;
+      }
+    });
+    return locks;
+  }
+
+  /**
+   * Lock the blocks so they cannot be deleted, moved or edited.
+   *
+   * @param locks The locks by block id. The blocks without a lock are
+   * left unchanged.
+   */
+  setLockedBlocks(locks: BlocklyLayout.LockedBlocks): void {
+    Object.entries(locks).forEach(([id, lock]) => {
+      const block = this._workspace.getBlockById(id);
+      if (block) {
+        Private.setLock(block, lock);
+      }
+    });
+  }
+
+  /**
+   * Change the lock of a block.
+   *
+   * @param block The block.
+   * @param lock The properties of the lock to change.
+   */
+  lockBlock(block: Blockly.Block, lock: BlocklyLayout.ILock): void {
+    Private.setLock(block, { ...Private.getLock(block), ...lock });
+    this._workspaceChanged.emit();
+  }
+
+  /**
+   * Clear the outputs of the code cells.
+   */
+  clearOutputs(): void {
+    [this._cell, ...this._stackCells.values()].forEach(cell =>
+      this._setOutputs(cell, [])
+    );
   }
 
   /**
@@ -225,18 +725,510 @@ export class BlocklyLayout extends SplitLayout {
   protected onAfterAttach(msg: Message): void {
     super.onAfterAttach(msg);
     //inject Blockly with appropiate JupyterLab theme.
+    ToolboxSearchCategory.register();
     this._workspace = Blockly.inject(this._host.node, {
-      toolbox: this._manager.toolbox,
-      theme: THEME
+      toolbox: ToolboxSearchCategory.addTo(this._manager.toolbox),
+      theme: THEME,
+      // The flyout disables the blocks that reached their limit
+      maxInstances: this._manager.getMaxInstances()
     });
+    Private.layouts.set(this._workspace, this);
+    Private.registerContextMenu();
+    // Show the values of the variables in the Variables category
+    this._workspace.registerToolboxCategoryCallback('VARIABLE', workspace =>
+      Private.variablesFlyout(workspace, this._inspector.variables)
+    );
+    this._updateReadOnly();
+    this._updateRemainingBadges();
 
-    this._workspace.addChangeListener(() => {
-      // Get extra code from the blocks in the workspace.
-      const extra_init = this.getBlocksToplevelInit();
-      // Serializing our workspace into the chosen language generator.
-      const code =
-        extra_init + this._manager.generator.workspaceToCode(this._workspace);
-      this._cell.model.sharedModel.setSource(code);
+    // The key bindings only apply when the workspace has the focus, not
+    // when typing in the inputs of the editor, e.g. the toolbox search
+    const injectionDiv = this._workspace.getInjectionDiv() as HTMLElement;
+    injectionDiv.tabIndex = -1;
+    injectionDiv.addEventListener(
+      'pointerdown',
+      () => injectionDiv.focus({ preventScroll: true }),
+      true
+    );
+
+    this._workspace.addChangeListener((event: Blockly.Events.Abstract) => {
+      if (event.type === Blockly.Events.SELECTED) {
+        this._selected = (event as Blockly.Events.Selected).newElementId;
+        this._highlightSelected();
+      } else if (event.type === Blockly.Events.TOOLBOX_ITEM_SELECT) {
+        // The flyout shows the blocks of the selected category
+        this._updateRemainingBadges();
+      } else if (!event.isUiEvent) {
+        this._updateCode();
+        this._updateRemainingBadges();
+        // The changes of the collaborators do not modify the local document,
+        // nor run the code of the local kernel
+        if (!this._sync?.isRemote(event)) {
+          this._workspaceChanged.emit();
+          if (this._manager.getLiveMode()) {
+            this._scheduleLiveRun();
+          }
+        }
+      }
+    });
+    this._updateCode();
+  }
+
+  /**
+   * Show the number of instances that can still be added next to the
+   * limited blocks of the flyout.
+   */
+  private _updateRemainingBadges(): void {
+    const flyout = this._workspace.getFlyout();
+    if (!flyout) {
+      return;
+    }
+    const maxInstances = this._workspace.options.maxInstances ?? {};
+    flyout
+      .getWorkspace()
+      .getTopBlocks(false)
+      .forEach(block => {
+        const root = block.getSvgRoot();
+        let badge = Array.from(root.children).find(child =>
+          child.classList.contains('jp-blockly-remaining')
+        );
+        if (!Object.prototype.hasOwnProperty.call(maxInstances, block.type)) {
+          badge?.remove();
+          return;
+        }
+        if (!badge) {
+          badge = Blockly.utils.dom.createSvgElement(
+            Blockly.utils.Svg.TEXT,
+            { class: 'jp-blockly-remaining', y: 14 },
+            root
+          );
+        }
+        badge.setAttribute('x', String(block.getHeightWidth().width + 6));
+        badge.textContent = `×${Math.max(
+          this._workspace.remainingCapacityOfType(block.type),
+          0
+        )}`;
+      });
+  }
+
+  /**
+   * Run the code once the blocks stop changing, in live mode.
+   */
+  private _scheduleLiveRun(): void {
+    clearTimeout(this._liveTimer);
+    this._liveTimer = setTimeout(() => {
+      this._liveTimer = null;
+      this._runLive().catch(e => console.error(e));
+    }, Private.LIVE_DELAY);
+  }
+
+  /**
+   * Run the code again after a change of the blocks, interrupting the
+   * previous execution if it is still running.
+   *
+   * Unlike `run`, nothing runs and no dialog is shown when the kernel
+   * cannot run the code, as the user did not ask for it.
+   */
+  private async _runLive(): Promise<void> {
+    const kernel = this._sessionContext.session?.kernel;
+    if (
+      !kernel ||
+      this._manager.kernelLanguage !== this._manager.language ||
+      this._stepper.state !== 'idle'
+    ) {
+      return;
+    }
+    if (this._pendingRun) {
+      // Cancel the rest of the previous run
+      this._runs++;
+      await kernel.interrupt();
+    }
+    this.run();
+  }
+
+  /**
+   * Make the workspace read-only, or editable, following the manager.
+   */
+  private _updateReadOnly(): void {
+    const readOnly = this._manager.getReadOnly();
+    // The blocks check this option before any edit
+    this._workspace.options.readOnly = readOnly;
+    Blockly.hideChaff();
+    // The blocks cannot be added from the toolbox
+    this._workspace.getToolbox()?.setVisible(!readOnly);
+    this._workspace.getFlyout(true)?.setVisible(!readOnly);
+    this._resizeWorkspace();
+  }
+
+  private _getSelectedBlock(): Blockly.BlockSvg | null {
+    const selected = Blockly.common.getSelected();
+    // The deleted blocks stay selected in Blockly
+    if (
+      selected instanceof Blockly.BlockSvg &&
+      selected.workspace === this._workspace &&
+      !selected.isDeadOrDying()
+    ) {
+      return selected;
+    }
+    return null;
+  }
+
+  private _createCell(): CodeCell {
+    const cell = new CodeCell({
+      contentFactory: new Cell.ContentFactory({
+        editorFactory: this._factoryService.newInlineEditor
+      }),
+      model: new CodeCellModel(),
+      rendermime: this._rendermime,
+      placeholder: false
+    }).initializeState();
+
+    // Select the block that produced a line when clicking on it
+    cell.editorWidget.node.addEventListener('click', () =>
+      this._selectFromLine(cell)
+    );
+
+    // Set the mimeType for the code, the outputs are trusted only when
+    // the code runs
+    cell.addClass('jp-blockly-codeCell');
+    cell.readOnly = true;
+    cell.model.mimeType = this._manager.mimeType;
+    // adding the style to the element as a quick fix
+    // we should make it work with the css class
+    cell.node.style.overflow = 'scroll';
+    return cell;
+  }
+
+  /**
+   * Check whether there is a kernel able to execute the generated code.
+   */
+  private _checkKernel(): boolean {
+    if (this._sessionContext.hasNoKernel) {
+      showErrorMessage(
+        'Select a valid kernel',
+        `There is not a valid kernel selected, select one from the dropdown menu in the toolbar.
+        If there isn't a valid kernel please install 'xeus-python' from Pypi.org or using mamba.
+        `
+      );
+      return false;
+    }
+    const language = this._manager.language;
+    if (this._manager.kernelLanguage !== language) {
+      showErrorMessage(
+        'Select a matching kernel',
+        `The code is generated in ${language}, which the selected kernel cannot run.
+        Select a ${language} kernel or generate the code in the language of the kernel.
+        `
+      );
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Generates the code of a top-level block stack and executes it in its
+   * cell, the kernel must be checked first.
+   */
+  private async _runStack(block: Blockly.Block): Promise<void> {
+    const root = block.getRootBlock();
+    let cell = this._cell;
+    if (this._manager.getRunMode() === 'stacks') {
+      this._updateStackCells();
+      cell = this._stackCells.get(root.id);
+    }
+    this._setCode(
+      cell,
+      SourceMap.generate(this._manager.generator, () => this.getStackCode(root))
+    );
+    return this._execute(cell);
+  }
+
+  /**
+   * Follow a run of the code until it ends: check the results with the
+   * tests of the document, report the failures and update the run state.
+   */
+  private _trackRun(execution: Promise<void>, isCurrent: () => boolean): void {
+    const start = performance.now();
+    this._setRunState({ running: true, executionCount: null, duration: null });
+    const pendingRun: Promise<void> = execution
+      .then(() => (isCurrent() ? this._runTests() : undefined))
+      .catch(reason => {
+        showErrorMessage('Execution failed', reason);
+      })
+      .finally(() => {
+        // A new run may have started in live mode
+        if (this._pendingRun === pendingRun) {
+          this._pendingRun = null;
+          this._setRunState({
+            running: false,
+            executionCount: this._getExecutionCount(),
+            duration: performance.now() - start
+          });
+        }
+      });
+    this._pendingRun = pendingRun;
+  }
+
+  private _setRunState(state: BlocklyLayout.IRunState): void {
+    this._runState = state;
+    this._runStateChanged.emit(state);
+  }
+
+  /**
+   * Get the execution count of the last cell executed by the kernel.
+   */
+  private _getExecutionCount(): number | null {
+    const cells =
+      this._manager.getRunMode() === 'stacks'
+        ? [...this._stackCells.values()]
+        : [this._cell];
+    const counts = cells
+      .map(cell => cell.model.executionCount)
+      .filter(count => count !== null);
+    return counts.length ? Math.max(...counts) : null;
+  }
+
+  /**
+   * Run the tests of the document in the kernel and show their results.
+   */
+  private async _runTests(): Promise<void> {
+    const tests = this._manager.getTests();
+    const kernel = this._sessionContext.session?.kernel;
+    if (!tests.length || !kernel) {
+      return;
+    }
+    this._testResults.setResults(await Assessment.runTests(kernel, tests));
+  }
+
+  /**
+   * Set the outputs of a cell and highlight the error they contain.
+   */
+  private _setOutputs(cell: CodeCell, outputs: nbformat.IOutput[]): void {
+    // The outputs read from the document may come from anyone
+    cell.model.trusted = false;
+    cell.model.outputs.fromJSON(outputs);
+    this._showError(cell, Private.getError(cell.model.outputs));
+  }
+
+  private _execute(cell: CodeCell): Promise<void> {
+    this._showError(cell, null);
+    this._trustOutputs(cell);
+    // Execute the code using the kernel, by using a static method from the
+    // same class to make an execution request.
+    return CodeCell.execute(cell, this._sessionContext).then(() => {
+      this._showError(cell, Private.getError(cell.model.outputs));
+      this._resizeWorkspace();
+      return this._inspectVariables();
+    });
+  }
+
+  /**
+   * Get the values of the variables of the workspace from the kernel
+   * and show them in the inspector.
+   */
+  private async _inspectVariables(): Promise<void> {
+    const kernel = this._sessionContext.session?.kernel;
+    const variables = this._workspace.getAllVariables();
+    if (!kernel || !variables.length) {
+      this._inspector.setVariables(null);
+      return;
+    }
+
+    // The names of the variables in the generated code avoid the
+    // reserved words of the language
+    const generator = this._manager.generator;
+    const names = new Map<string, string>();
+    generator.init(this._workspace);
+    variables.forEach(variable =>
+      names.set(generator.getVariableName(variable.getId()), variable.name)
+    );
+    generator.isInitialized = false;
+
+    try {
+      this._inspector.setVariables(
+        await VariableInspector.inspect(kernel, names)
+      );
+    } catch (reason) {
+      console.error('Failed to inspect the variables', reason);
+    }
+    this._resizeWorkspace();
+  }
+
+  /**
+   * Clear the outputs of a cell and trust the next ones, produced by the
+   * code run in this session.
+   */
+  private _trustOutputs(cell: CodeCell): void {
+    // Trusting a cell also trusts its current outputs
+    cell.model.outputs.clear();
+    cell.model.trusted = true;
+  }
+
+  /**
+   * Execute the instrumented code of a cell step by step.
+   */
+  private _debug(cell: CodeCell, code: string): Promise<void> {
+    this._showError(cell, null);
+    this._trustOutputs(cell);
+    // The last block reached is the one that raised the error, if any
+    let last: string | null = null;
+    const onBlockChanged = (sender: Stepper, id: string | null) => {
+      last = id ?? last;
+    };
+    this._stepper.blockChanged.connect(onBlockChanged);
+    return this._stepper
+      .execute(cell, code, this._sessionContext)
+      .then(() => {
+        const error = Private.getError(cell.model.outputs);
+        if (error) {
+          // The lines of the instrumented code do not match the cell
+          const lines = last
+            ? this._sourceMaps.get(cell)?.getLines([last])
+            : [];
+          error.line = lines?.length ? lines[0] : null;
+        }
+        this._showError(cell, error);
+        this._resizeWorkspace();
+        return this._inspectVariables();
+      })
+      .finally(() => this._stepper.blockChanged.disconnect(onBlockChanged));
+  }
+
+  /**
+   * Generate the code of the workspace, and of the stacks in 'stacks' run mode.
+   */
+  private _updateCode(): void {
+    const generator = this._manager.generator;
+    this._setCode(
+      this._cell,
+      SourceMap.generate(
+        generator,
+        () =>
+          // Get extra code from the blocks in the workspace and serialize
+          // our workspace into the chosen language generator.
+          this.getBlocksToplevelInit() +
+          generator.workspaceToCode(this._workspace)
+      )
+    );
+    if (this._manager.getRunMode() === 'stacks') {
+      this._updateStackCells();
+    }
+  }
+
+  /**
+   * Set the code of a cell and keep its source map.
+   */
+  private _setCode(cell: CodeCell, result: SourceMap.IResult): void {
+    this._sourceMaps.set(cell, result.sourceMap);
+    // Avoid resetting the editor, and its highlighted lines, when
+    // the code did not change.
+    if (cell.model.sharedModel.getSource() !== result.code) {
+      cell.model.sharedModel.setSource(result.code);
+    }
+    SourceMap.highlightLines(
+      cell.editor,
+      this._getLines(cell, this._selected),
+      'selected'
+    );
+  }
+
+  /**
+   * Get the lines of a cell produced by a block.
+   *
+   * The lines of a statement include the lines of the blocks inside it, while
+   * value blocks are highlighted through the statement using them.
+   */
+  private _getLines(cell: CodeCell, id: string | null): number[] {
+    const sourceMap = this._sourceMaps.get(cell);
+    let block = id ? this._workspace.getBlockById(id) : null;
+    if (!sourceMap || !block) {
+      return [];
+    }
+    const lines = sourceMap.getLines(
+      block.getDescendants(false).map(child => child.id)
+    );
+    while (!lines.length && (block = block.getParent())) {
+      lines.push(...sourceMap.getLines([block.id]));
+    }
+    return lines;
+  }
+
+  /**
+   * Highlight the lines produced by the selected block.
+   */
+  private _highlightSelected(): void {
+    this._sourceMaps.forEach((sourceMap, cell) => {
+      SourceMap.highlightLines(
+        cell.editor,
+        this._getLines(cell, this._selected),
+        'selected'
+      );
+    });
+  }
+
+  /**
+   * Select the block that produced the line under the cursor of a cell.
+   */
+  private _selectFromLine(cell: CodeCell): void {
+    const line = cell.editor.getCursorPosition().line;
+    const id = this._sourceMaps.get(cell)?.getBlockId(line);
+    const block = id ? this._workspace.getBlockById(id) : null;
+    if (block) {
+      block.select();
+      this._workspace.centerOnBlock(block.id);
+    }
+  }
+
+  /**
+   * Highlight the line and the block that raised an error in a cell,
+   * or clear the previous error if none.
+   */
+  private _showError(cell: CodeCell, error: Private.IError | null): void {
+    const previous = this._workspace.getBlockById(this._errors.get(cell));
+    previous?.setWarningText(null, Private.ERROR_WARNING_ID);
+    this._errors.delete(cell);
+
+    const line = error?.line ?? null;
+    SourceMap.highlightLines(cell.editor, line !== null ? [line] : [], 'error');
+    const id =
+      line !== null ? this._sourceMaps.get(cell)?.getBlockId(line) : null;
+    const block = id ? this._workspace.getBlockById(id) : null;
+    if (block) {
+      this._errors.set(cell, block.id);
+      block.setWarningText(error.message, Private.ERROR_WARNING_ID);
+      block.select();
+    }
+  }
+
+  /**
+   * Create, remove and reorder the cells of the top-level block stacks
+   * to match the workspace, and update their code.
+   */
+  private _updateStackCells(): void {
+    const blocks = this._workspace.getTopBlocks(true);
+    const ids = blocks.map(block => block.id);
+    this._stackCells.forEach((cell, id) => {
+      if (!ids.includes(id)) {
+        cell.dispose();
+        this._stackCells.delete(id);
+        this._sourceMaps.delete(cell);
+        this._errors.delete(cell);
+      }
+    });
+    blocks.forEach((block, index) => {
+      let cell = this._stackCells.get(block.id);
+      if (!cell) {
+        cell = this._createCell();
+        this._stackCells.set(block.id, cell);
+      }
+      this._stacks.insertWidget(index, cell);
+      this._setCode(
+        cell,
+        SourceMap.generate(this._manager.generator, () =>
+          this.getStackCode(block)
+        )
+      );
+      cell.model.mimeType = this._manager.mimeType;
     });
   }
 
@@ -249,25 +1241,59 @@ export class BlocklyLayout extends SplitLayout {
     sender: BlocklyManager,
     change: BlocklyManager.Change
   ) {
-    if (change === 'kernel') {
-      // Get extra code from the blocks in the workspace.
-      const extra_init = this.getBlocksToplevelInit();
-      // Serializing our workspace into the chosen language generator.
-      const code =
-        extra_init + this._manager.generator.workspaceToCode(this._workspace);
-      this._cell.model.sharedModel.setSource(code);
+    if (change === 'language') {
+      this._updateCode();
       this._cell.model.mimeType = this._manager.mimeType;
     }
+    if (change === 'runMode') {
+      if (this._manager.getRunMode() === 'stacks') {
+        this._updateStackCells();
+        this._cell.hide();
+        this._stacks.show();
+      } else {
+        this._stacks.hide();
+        this._cell.show();
+      }
+    }
     if (change === 'toolbox') {
-      this._workspace.updateToolbox(this._manager.toolbox as any);
+      // Set the limits first, the flyout applies them when it is shown
+      this._workspace.options.maxInstances = this._manager.getMaxInstances();
+      this._workspace.updateToolbox(
+        ToolboxSearchCategory.addTo(this._manager.toolbox)
+      );
+      this._updateRemainingBadges();
+    }
+    if (change === 'readOnly') {
+      this._updateReadOnly();
+    }
+    if (change === 'liveMode' && !this._manager.getLiveMode()) {
+      clearTimeout(this._liveTimer);
+      this._liveTimer = null;
+    }
+    if (change === 'kernel') {
+      // The values of the previous kernel are gone
+      this._inspector.setVariables(null);
+    }
+    if (change === 'tests') {
+      // The results of the previous tests are outdated
+      this._testResults.setResults(null);
     }
     if (change === 'description') {
-      if (this._manager.getDescription() !== undefined && this._manager.getDescription().length > 0) {
+      if (
+        this._manager.getDescription() !== undefined &&
+        this._manager.getDescription().length > 0
+      ) {
         const descriptionElement = document.createElement('div');
-        descriptionElement.classList.add('jp-RenderedHTMLCommon', 'jp-RenderedMarkdown', 'jp-MarkdownOutput');
-        this._rendermime.markdownParser.render(this._manager.getDescription()).then((source: string) => {
-          descriptionElement.innerHTML = source;
-        });
+        descriptionElement.classList.add(
+          'jp-RenderedHTMLCommon',
+          'jp-RenderedMarkdown',
+          'jp-MarkdownOutput'
+        );
+        this._rendermime.markdownParser
+          .render(this._manager.getDescription())
+          .then((source: string) => {
+            descriptionElement.innerHTML = source;
+          });
         this._description.node.innerHTML = '';
         this._description.node.appendChild(descriptionElement);
         this._description.show();
@@ -278,3 +1304,257 @@ export class BlocklyLayout extends SplitLayout {
     }
   }
 }
+
+/**
+ * A namespace for BlocklyLayout statics.
+ */
+export namespace BlocklyLayout {
+  /**
+   * The outputs of the code cells.
+   */
+  export interface IOutputs extends PartialJSONObject {
+    /**
+     * The outputs of the cell of the whole workspace.
+     */
+    workspace: nbformat.IOutput[];
+
+    /**
+     * The outputs of the cell of each top-level block stack, by the id
+     * of its top block.
+     */
+    stacks: { [id: string]: nbformat.IOutput[] };
+  }
+
+  /**
+   * The state of a run of the code.
+   */
+  export interface IRunState {
+    /**
+     * Whether the code is running.
+     */
+    running: boolean;
+
+    /**
+     * The execution count of the kernel when the run ended, or null if
+     * the code did not run.
+     */
+    executionCount: number | null;
+
+    /**
+     * The duration of the run in milliseconds, or null while running.
+     */
+    duration: number | null;
+  }
+
+  /**
+   * The lock of a block, the properties set to false are locked.
+   */
+  export interface ILock {
+    /**
+     * Whether the block can be deleted.
+     */
+    deletable?: boolean;
+
+    /**
+     * Whether the block can be moved.
+     */
+    movable?: boolean;
+
+    /**
+     * Whether the fields of the block can be edited.
+     */
+    editable?: boolean;
+  }
+
+  /**
+   * The locks of the blocks by block id.
+   */
+  export type LockedBlocks = { [id: string]: ILock };
+}
+
+namespace Private {
+  /**
+   * The id of the context menu item to run a block stack.
+   */
+  const RUN_STACK_ID = 'jupyterlab-blockly-run-stack';
+
+  /**
+   * The context menu items to lock the blocks, by property of the lock.
+   */
+  const LOCK_ITEMS: {
+    property: keyof BlocklyLayout.ILock;
+    action: string;
+  }[] = [
+    { property: 'deletable', action: 'deleting' },
+    { property: 'movable', action: 'moving' },
+    { property: 'editable', action: 'editing' }
+  ];
+
+  /**
+   * The id of the warnings showing the errors on the blocks.
+   */
+  export const ERROR_WARNING_ID = 'jupyterlab-blockly-error';
+
+  /**
+   * An error raised by the execution of a cell.
+   */
+  export interface IError {
+    /**
+     * The line of the cell raising the error, starting at 0, or null if unknown.
+     */
+    line: number | null;
+    /**
+     * The error message.
+     */
+    message: string;
+  }
+
+  /**
+   * Get the error from the outputs of an execution, finding the line of the
+   * cell that raised it from the traceback.
+   *
+   * @param outputs The outputs of the cell.
+   * @returns The error or null if the execution succeeded.
+   */
+  export function getError(outputs: IOutputAreaModel): IError | null {
+    for (let i = 0; i < outputs.length; i++) {
+      const output = outputs.get(i).toJSON();
+      if (output.output_type !== 'error') {
+        continue;
+      }
+      const traceback = ((output.traceback as string[]) ?? [])
+        .join('\n')
+        // eslint-disable-next-line no-control-regex
+        .replace(/\x1b\[[0-9;]*m/g, '');
+
+      // IPython 8 references the frames in the cell as "Cell In[n], line l",
+      // the last one being the deepest frame in the cell.
+      let line: number | null = null;
+      const regex = /Cell In\s*\[\d*\],\s*line (\d+)/g;
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(traceback)) !== null) {
+        line = parseInt(match[1]) - 1;
+      }
+      // Older versions point at the line with an arrow.
+      if (line === null) {
+        match = /-+>\s*(\d+)/.exec(traceback);
+        line = match ? parseInt(match[1]) - 1 : null;
+      }
+      return { line, message: `${output.ename}: ${output.evalue}` };
+    }
+    return null;
+  }
+
+  /**
+   * The delay in milliseconds without changes of the blocks before
+   * running the code in live mode.
+   */
+  export const LIVE_DELAY = 1000;
+
+  /**
+   * The vertical space between the blocks added under the others, in
+   * workspace units.
+   */
+  export const BLOCK_SPACING = 20;
+
+  /**
+   * The longest value of a variable shown in the Variables category.
+   */
+  const MAX_VALUE_LENGTH = 40;
+
+  /**
+   * Create the contents of the Variables category, with the values of the
+   * variables after the blocks creating them.
+   */
+  export function variablesFlyout(
+    workspace: Blockly.WorkspaceSvg,
+    variables: VariableInspector.IVariable[]
+  ): Element[] {
+    const contents = Blockly.Variables.flyoutCategory(workspace);
+    variables.forEach(({ name, value }) => {
+      if (value === null) {
+        return;
+      }
+      if (value.length > MAX_VALUE_LENGTH) {
+        value = value.slice(0, MAX_VALUE_LENGTH - 1) + '…';
+      }
+      const label = Blockly.utils.xml.createElement('label');
+      label.setAttribute('text', `${name} = ${value}`);
+      contents.push(label);
+    });
+    return contents;
+  }
+
+  /**
+   * The layout hosting each workspace, used by the context menu items
+   * which are registered globally in Blockly.
+   */
+  export const layouts = new WeakMap<Blockly.Workspace, BlocklyLayout>();
+
+  /**
+   * Register the block context menu item to run the stack of the block.
+   */
+  export function registerContextMenu(): void {
+    if (Blockly.ContextMenuRegistry.registry.getItem(RUN_STACK_ID)) {
+      return;
+    }
+    Blockly.ContextMenuRegistry.registry.register({
+      id: RUN_STACK_ID,
+      scopeType: Blockly.ContextMenuRegistry.ScopeType.BLOCK,
+      displayText: 'Run selected block stack',
+      preconditionFn: scope =>
+        layouts.has(scope.block.workspace) ? 'enabled' : 'hidden',
+      callback: scope =>
+        layouts.get(scope.block.workspace)?.runStack(scope.block),
+      weight: 0
+    });
+    LOCK_ITEMS.forEach(({ property, action }, index) => {
+      Blockly.ContextMenuRegistry.registry.register({
+        id: `jupyterlab-blockly-lock-${property}`,
+        scopeType: Blockly.ContextMenuRegistry.ScopeType.BLOCK,
+        displayText: scope =>
+          getLock(scope.block)?.[property] === false
+            ? `Allow ${action}`
+            : `Prevent ${action}`,
+        // The students cannot remove the locks of an exercise
+        preconditionFn: scope =>
+          layouts.get(scope.block.workspace)?.authoring ? 'enabled' : 'hidden',
+        callback: scope => {
+          const locked = getLock(scope.block)?.[property] === false;
+          layouts
+            .get(scope.block.workspace)
+            .lockBlock(scope.block, { [property]: locked });
+        },
+        weight: 10 + index
+      });
+    });
+  }
+
+  /**
+   * Get the lock of a block.
+   *
+   * @returns The lock or null if the block is not locked.
+   */
+  export function getLock(block: Blockly.Block): BlocklyLayout.ILock | null {
+    const lock: BlocklyLayout.ILock = {};
+    if (!block.isOwnDeletable()) {
+      lock.deletable = false;
+    }
+    if (!block.isOwnMovable()) {
+      lock.movable = false;
+    }
+    if (!block.isOwnEditable()) {
+      lock.editable = false;
+    }
+    return Object.keys(lock).length ? lock : null;
+  }
+
+  /**
+   * Set the lock of a block, the missing properties are unlocked.
+   */
+  export function setLock(block: Blockly.Block, lock: BlocklyLayout.ILock) {
+    block.setDeletable(lock.deletable ?? true);
+    block.setMovable(lock.movable ?? true);
+    block.setEditable(lock.editable ?? true);
+  }
+}
@@ -7,6 +7,7 @@ import { ISignal, Signal } from '@lumino/signaling';
 
 import * as Blockly from 'blockly';
 
+import { Assessment } from './assessment';
 import { BlocklyRegistry } from './registry';
 import {
   BlockInfo,
@@ -25,7 +26,13 @@ import {
 export class BlocklyManager {
   private _description: string;
   private _toolbox: string;
-  private _allowedBlocks: string[];
+  private _allowedBlocks: BlocklyManager.BlockLimits | undefined;
+  private _runMode: BlocklyManager.RunMode;
+  private _readOnly: boolean;
+  private _authoring: boolean;
+  private _liveMode: boolean;
+  private _tests: Assessment.ITest[];
+  private _language: string | null;
   private _generator: Blockly.Generator;
   private _registry: BlocklyRegistry;
   private _selectedKernel: KernelSpec.ISpecModel;
@@ -46,11 +53,19 @@ export class BlocklyManager {
     this._mimetypeService = mimetypeService;
 
     this._toolbox = 'default';
+    this._runMode = 'workspace';
+    this._readOnly = false;
+    this._authoring = false;
+    this._liveMode = false;
+    this._tests = [];
     this._filterToolbox();
-    this._generator = this._registry.generators.get('python');
+    this._language = null;
+    this._generator = this._registry.generators.get(this.language);
 
     this._changed = new Signal<this, BlocklyManager.Change>(this);
     this._sessionContext.kernelChanged.connect(this._onKernelChanged, this);
+    this._registry.toolboxesChanged.connect(this._onToolboxesChanged, this);
+    this._registry.generatorsChanged.connect(this._onGeneratorsChanged, this);
   }
 
   /**
@@ -61,19 +76,15 @@ export class BlocklyManager {
   }
 
   /**
-   * Returns the mimeType for the selected kernel.
+   * Returns the mimeType for the language of the generated code.
    *
    * Note: We need the mimeType for the syntax highlighting
    * when rendering the code.
    */
   get mimeType(): string {
-    if (this._selectedKernel) {
-      return this._mimetypeService.getMimeTypeByLanguage({
-        name: this._selectedKernel.language
-      });
-    } else {
-      return 'text/plain';
-    }
+    return this._mimetypeService.getMimeTypeByLanguage({
+      name: this.language
+    });
   }
 
   /**
@@ -83,6 +94,35 @@ export class BlocklyManager {
     return this._selectedKernel?.name || 'No kernel';
   }
 
+  /**
+   * Returns the spec of the selected kernel or undefined if none is selected.
+   */
+  get kernelSpec(): KernelSpec.ISpecModel | undefined {
+    return this._selectedKernel;
+  }
+
+  /**
+   * Returns the language of the generated code: the selected language, or
+   * the language of the kernel if none is selected, defaulting to Python.
+   */
+  get language(): string {
+    if (this._language !== null) {
+      return this._language;
+    }
+    return this.kernelLanguage ?? 'python';
+  }
+
+  /**
+   * Returns the language of the generator matching the selected kernel,
+   * or undefined if there is no kernel or no matching generator.
+   */
+  get kernelLanguage(): string | undefined {
+    if (!this._selectedKernel) {
+      return undefined;
+    }
+    return this._registry.getLanguage(this._selectedKernel.language);
+  }
+
   /**
    * Returns the selected generator.
    */
@@ -90,6 +130,13 @@ export class BlocklyManager {
     return this._generator;
   }
 
+  /**
+   * Returns the registry of the toolboxes, blocks and generators.
+   */
+  get registry(): BlocklyRegistry {
+    return this._registry;
+  }
+
   /**
    * Signal triggered when the manager changes.
    */
@@ -102,6 +149,11 @@ export class BlocklyManager {
    */
   dispose(): void {
     this._sessionContext.kernelChanged.disconnect(this._onKernelChanged, this);
+    this._registry.toolboxesChanged.disconnect(this._onToolboxesChanged, this);
+    this._registry.generatorsChanged.disconnect(
+      this._onGeneratorsChanged,
+      this
+    );
   }
 
   /**
@@ -159,26 +211,218 @@ export class BlocklyManager {
     return list;
   }
 
+  /**
+   * Get the selected language of the generated code.
+   *
+   * @returns The language or null if it follows the kernel.
+   */
+  getLanguage(): string | null {
+    return this._language;
+  }
+
+  /**
+   * Set the language of the generated code, independently of the kernel.
+   *
+   * @param language The language or null to follow the kernel.
+   */
+  setLanguage(language: string | null) {
+    if (language !== null && !this._registry.generators.has(language)) {
+      console.warn(`Unknown language: ${language}`);
+      language = null;
+    }
+    if (this._language !== language) {
+      this._language = language;
+      this._updateGenerator();
+    }
+  }
+
+  /**
+   * List the languages of the registered generators.
+   *
+   * @returns the list of available languages for Blockly
+   */
+  listLanguages(): { label: string; value: string }[] {
+    const list: { label: string; value: string }[] = [];
+    this._registry.generators.forEach((generator, language) => {
+      list.push({ label: language, value: language });
+    });
+    return list;
+  }
+
   /**
    * Get the list of allowed blocks. If undefined, all blocks are allowed.
    *
    * @returns The list of allowed blocks.
    */
-  getAllowedBlocks() {
-    return this._allowedBlocks;
+  getAllowedBlocks(): string[] | undefined {
+    return this._allowedBlocks && Object.keys(this._allowedBlocks);
   }
 
   /**
-   * Set the list of allowed blocks. If undefined, all blocks are allowed.
+   * Set the allowed blocks. If undefined, all blocks are allowed.
+   *
+   * @param allowedBlocks The list of allowed blocks, or the maximum number
+   * of instances of each allowed block type, null for no limit.
    *
-   * @param allowedBlocks The list of allowed blocks.
+   * #### Notes
+   * The block types are not case sensitive, they are saved in lower case.
    */
-  setAllowedBlocks(allowedBlocks: string[]) {
-    this._allowedBlocks = allowedBlocks;
+  setAllowedBlocks(
+    allowedBlocks: string[] | BlocklyManager.BlockLimits | undefined
+  ) {
+    let limits: BlocklyManager.BlockLimits | undefined;
+    if (allowedBlocks !== undefined) {
+      const entries: [string, number | null][] = Array.isArray(allowedBlocks)
+        ? allowedBlocks.map(type => [type, null])
+        : Object.entries(allowedBlocks);
+      limits = entries.reduce<BlocklyManager.BlockLimits>(
+        (result, [type, limit]) => ({ ...result, [type.toLowerCase()]: limit }),
+        {}
+      );
+    }
+    this._allowedBlocks = limits;
     this._filterToolbox();
     this._changed.emit('toolbox');
   }
 
+  /**
+   * Get the maximum number of instances of each allowed block type.
+   * If undefined, all blocks are allowed.
+   *
+   * @returns The limits, null for no limit.
+   */
+  getBlockLimits(): BlocklyManager.BlockLimits | undefined {
+    return this._allowedBlocks;
+  }
+
+  /**
+   * Get the maximum number of instances of the limited block types.
+   *
+   * @returns The limits, only for the block types that have one, by
+   * registered block type as Blockly looks them up.
+   */
+  getMaxInstances(): { [type: string]: number } {
+    const maxInstances: { [type: string]: number } = {};
+    const types = Private.getBlockTypes();
+    Object.entries(this._allowedBlocks ?? {}).forEach(([type, limit]) => {
+      if (typeof limit === 'number') {
+        maxInstances[types.get(type) ?? type] = limit;
+      }
+    });
+    return maxInstances;
+  }
+
+  /**
+   * Get the run mode.
+   *
+   * @returns The run mode.
+   */
+  getRunMode(): BlocklyManager.RunMode {
+    return this._runMode;
+  }
+
+  /**
+   * Set the run mode. In 'workspace' mode the whole workspace is generated
+   * and executed in a single cell, while in 'stacks' mode each top-level
+   * block stack gets its own cell.
+   *
+   * @param mode The run mode.
+   */
+  setRunMode(mode: BlocklyManager.RunMode) {
+    if (this._runMode !== mode) {
+      this._runMode = mode;
+      this._changed.emit('runMode');
+    }
+  }
+
+  /**
+   * Whether the document is read-only.
+   *
+   * @returns Whether the blocks cannot be edited.
+   */
+  getReadOnly(): boolean {
+    return this._readOnly;
+  }
+
+  /**
+   * Set whether the document is read-only. A read-only document can be
+   * viewed and run, but its blocks cannot be added, removed or edited.
+   *
+   * @param readOnly Whether the blocks cannot be edited.
+   */
+  setReadOnly(readOnly: boolean) {
+    if (this._readOnly !== readOnly) {
+      this._readOnly = readOnly;
+      this._changed.emit('readOnly');
+    }
+  }
+
+  /**
+   * Whether the exercise settings can be edited.
+   *
+   * @returns Whether the locks of the blocks, the read-only state and the
+   * exercise settings can be changed.
+   */
+  getAuthoring(): boolean {
+    return this._authoring;
+  }
+
+  /**
+   * Set whether the exercise settings can be edited. The authoring mode is
+   * not saved in the document: it comes from the settings of the editor,
+   * so the students cannot undo the exercise settings.
+   *
+   * @param authoring Whether the exercise settings can be changed.
+   */
+  setAuthoring(authoring: boolean) {
+    if (this._authoring !== authoring) {
+      this._authoring = authoring;
+      this._changed.emit('authoring');
+    }
+  }
+
+  /**
+   * Whether the code runs again after each change of the blocks.
+   *
+   * @returns Whether the live mode is enabled.
+   */
+  getLiveMode(): boolean {
+    return this._liveMode;
+  }
+
+  /**
+   * Set whether the code runs again after each change of the blocks,
+   * interrupting the previous execution if it is still running.
+   *
+   * @param liveMode Whether the live mode is enabled.
+   */
+  setLiveMode(liveMode: boolean) {
+    if (this._liveMode !== liveMode) {
+      this._liveMode = liveMode;
+      this._changed.emit('liveMode');
+    }
+  }
+
+  /**
+   * Get the hidden tests run after the code of the document.
+   *
+   * @returns The tests.
+   */
+  getTests(): Assessment.ITest[] {
+    return this._tests;
+  }
+
+  /**
+   * Set the hidden tests run after the code of the document, to check
+   * the results of an exercise.
+   *
+   * @param tests The tests.
+   */
+  setTests(tests: Assessment.ITest[]) {
+    this._tests = tests;
+    this._changed.emit('tests');
+  }
+
   private _filterToolbox() {
     const toolbox = this._registry.toolboxes.get(this._toolbox) as ToolboxInfo;
     if (toolbox) {
@@ -186,6 +430,16 @@ export class BlocklyManager {
     }
   }
 
+  private _isAllowed(type: string): boolean {
+    return (
+      this._allowedBlocks === undefined ||
+      Object.prototype.hasOwnProperty.call(
+        this._allowedBlocks,
+        type.toLowerCase()
+      )
+    );
+  }
+
   private _filterContents(contents: ToolboxItemInfo[]): number {
     let visible = 0;
     contents.forEach(itemInfo => {
@@ -201,10 +455,7 @@ export class BlocklyManager {
             }
           } else if ('custom' in itemInfo) {
             const categoryInfo = itemInfo as DynamicCategoryInfo;
-            if (
-              this._allowedBlocks === undefined ||
-              this._allowedBlocks.includes(categoryInfo.custom.toLowerCase())
-            ) {
+            if (this._isAllowed(categoryInfo.custom)) {
               categoryInfo.hidden = 'false';
               visible++;
               console.log(`Category ${categoryInfo.custom} is allowed`);
@@ -215,10 +466,7 @@ export class BlocklyManager {
           }
         } else if (itemInfo.kind.toUpperCase() === 'BLOCK') {
           const blockInfo = itemInfo as BlockInfo;
-          if (
-            this._allowedBlocks === undefined ||
-            this._allowedBlocks.includes(blockInfo.type.toLowerCase())
-          ) {
+          if (this._isAllowed(blockInfo.type)) {
             blockInfo.disabled = false;
             blockInfo.disabledReasons = [];
             visible++;
@@ -250,14 +498,22 @@ export class BlocklyManager {
     const specs = this._sessionContext.specsManager.specs.kernelspecs;
     const list: { label: string; value: string }[] = [];
     Object.keys(specs).forEach(key => {
-      const language = specs[key].language;
-      if (this._registry.generators.has(language)) {
-        list.push({ label: specs[key].display_name, value: specs[key].name });
-      }
+      list.push({ label: specs[key].display_name, value: specs[key].name });
     });
     return list;
   }
 
+  /**
+   * Update the generator to the one of the language of the code.
+   */
+  private _updateGenerator(): void {
+    const generator = this._registry.generators.get(this.language);
+    if (this._generator !== generator) {
+      this._generator = generator;
+      this._changed.emit('language');
+    }
+  }
+
   private _onKernelChanged(
     sender: ISessionContext,
     args: IChangedArgs<KernelConnection, KernelConnection, 'kernel'>
@@ -265,11 +521,34 @@ export class BlocklyManager {
     const specs = this._sessionContext.specsManager.specs.kernelspecs;
     if (args.newValue && specs[args.newValue.name] !== undefined) {
       this._selectedKernel = specs[args.newValue.name];
-      const language = specs[args.newValue.name].language;
-      this._generator = this._registry.generators.get(language);
+      this._updateGenerator();
       this._changed.emit('kernel');
     }
   }
+
+  private _onToolboxesChanged(sender: BlocklyRegistry, name: string): void {
+    if (name === this._toolbox) {
+      // The selected toolbox was updated or unregistered
+      if (!this._registry.toolboxes.has(name)) {
+        this._toolbox = 'default';
+      }
+      this._filterToolbox();
+      this._changed.emit('toolbox');
+    }
+    this._changed.emit('toolboxes');
+  }
+
+  private _onGeneratorsChanged(sender: BlocklyRegistry, language: string) {
+    if (
+      this._language === language &&
+      !this._registry.generators.has(language)
+    ) {
+      // The selected language was unregistered
+      this._language = null;
+    }
+    this._updateGenerator();
+    this._changed.emit('generators');
+  }
 }
 
 /**
@@ -281,5 +560,41 @@ export namespace BlocklyManager {
   /**
    * The argument of the signal manager changed.
    */
-  export type Change = 'toolbox' | 'kernel' | 'description';
+  export type Change =
+    | 'toolbox'
+    | 'toolboxes'
+    | 'kernel'
+    | 'language'
+    | 'generators'
+    | 'description'
+    | 'runMode'
+    | 'readOnly'
+    | 'authoring'
+    | 'liveMode'
+    | 'tests';
+
+  /**
+   * The maximum number of instances of each allowed block type,
+   * null for no limit.
+   */
+  export type BlockLimits = { [type: string]: number | null };
+
+  /**
+   * The way the code of the workspace is generated and executed.
+   */
+  export type RunMode = 'workspace' | 'stacks';
+}
+
+namespace Private {
+  /**
+   * Get the registered block types by their lower case version, the one
+   * of the allowed blocks.
+   */
+  export function getBlockTypes(): Map<string, string> {
+    const types = new Map<string, string>();
+    Object.keys(Blockly.Blocks).forEach(type =>
+      types.set(type.toLowerCase(), type)
+    );
+    return types;
+  }
 }
@@ -0,0 +1,155 @@
+import { IRenderMime } from '@jupyterlab/rendermime';
+
+import { Message } from '@lumino/messaging';
+import { Widget } from '@lumino/widgets';
+
+import * as Blockly from 'blockly';
+
+import { BlocklyFormat } from './format';
+import { THEME } from './utils';
+
+/**
+ * The MIME type of the Blockly workspaces displayed in the outputs.
+ */
+export const BLOCKLY_MIME_TYPE = 'application/vnd.jupyter.blockly+json';
+
+/**
+ * A widget rendering a read-only Blockly workspace, from the content of a
+ * Blockly file or from a serialized workspace.
+ */
+export class RenderedBlockly extends Widget implements IRenderMime.IRenderer {
+  private _mimeType: string;
+  private _state: { [key: string]: any } | null = null;
+  private _error: string | null = null;
+  private _workspace: Blockly.WorkspaceSvg | null = null;
+
+  /**
+   * Construct a `RenderedBlockly`.
+   *
+   * @param options The options of the renderer.
+   */
+  constructor(options: IRenderMime.IRendererOptions) {
+    super();
+    this.addClass('jp-blockly-rendered');
+    this._mimeType = options.mimeType;
+  }
+
+  /**
+   * Dispose of the resources held by the widget.
+   */
+  dispose(): void {
+    this._workspace?.dispose();
+    this._workspace = null;
+    super.dispose();
+  }
+
+  /**
+   * Render the workspace of a mime model.
+   *
+   * @param model The mime model.
+   */
+  async renderModel(model: IRenderMime.IMimeModel): Promise<void> {
+    const data = model.data[this._mimeType] as BlocklyFormat.Content;
+    try {
+      // The content of a Blockly file holds the workspace with its metadata
+      this._state =
+        data['format'] !== undefined
+          ? BlocklyFormat.migrate(data)['workspace']
+          : data;
+      this._error = null;
+    } catch (reason) {
+      this._state = null;
+      this._error = `Invalid Blockly workspace: ${reason.message}`;
+    }
+    // Blockly can only be injected in an element of the document
+    if (this.isAttached) {
+      this._render();
+    }
+  }
+
+  /**
+   * Handle `after-attach` messages sent to the widget.
+   */
+  protected onAfterAttach(msg: Message): void {
+    super.onAfterAttach(msg);
+    this._render();
+  }
+
+  /**
+   * Render the workspace and fit the widget to the blocks.
+   */
+  private _render(): void {
+    this._workspace?.dispose();
+    this._workspace = null;
+    this.node.textContent = '';
+    this.node.style.height = '';
+    if (this._error !== null) {
+      this._renderError(this._error);
+      return;
+    }
+    if (!this._state) {
+      return;
+    }
+    this._workspace = Blockly.inject(this.node, {
+      readOnly: true,
+      theme: THEME,
+      move: { scrollbars: false, drag: false, wheel: false },
+      zoom: { controls: false, wheel: false }
+    });
+    try {
+      Blockly.serialization.workspaces.load(this._state, this._workspace, {
+        recordUndo: false
+      });
+    } catch (reason) {
+      // E.g. a block which is not registered
+      this._workspace.dispose();
+      this._workspace = null;
+      this.node.textContent = '';
+      this._renderError(
+        `Cannot render the Blockly workspace: ${reason.message}`
+      );
+      return;
+    }
+
+    const box = this._workspace.getBlocksBoundingBox();
+    const scale = this._workspace.scale;
+    this.node.style.height = `${
+      (box.bottom - box.top) * scale + 2 * Private.PADDING
+    }px`;
+    Blockly.svgResize(this._workspace);
+    // Show the blocks from the top left corner
+    this._workspace.translate(
+      Private.PADDING - box.left * scale,
+      Private.PADDING - box.top * scale
+    );
+  }
+
+  /**
+   * Show an error in place of the workspace, like the errors of the outputs.
+   */
+  private _renderError(message: string): void {
+    const error = document.createElement('div');
+    error.className = 'jp-RenderedText';
+    error.setAttribute('data-mime-type', 'application/vnd.jupyter.stderr');
+    const pre = document.createElement('pre');
+    pre.textContent = message;
+    error.appendChild(pre);
+    this.node.appendChild(error);
+  }
+}
+
+/**
+ * The factory of the renderers of Blockly workspaces.
+ */
+export const blocklyRendererFactory: IRenderMime.IRendererFactory = {
+  safe: true,
+  mimeTypes: [BLOCKLY_MIME_TYPE],
+  createRenderer: options => new RenderedBlockly(options)
+};
+
+namespace Private {
+  /**
+   * The margin around the blocks, in pixels.
+   */
+  export const PADDING = 10;
+}
@@ -1,3 +1,5 @@
+import { ISignal, Signal } from '@lumino/signaling';
+
 import * as Blockly from 'blockly';
 
 import { pythonGenerator } from 'blockly/python';
@@ -7,7 +9,7 @@ import { luaGenerator } from 'blockly/lua';
 import * as En from 'blockly/msg/en';
 
 import { IBlocklyRegistry } from './token';
-import { TOOLBOX } from './utils';
+import { TOOLBOX, getToplevelInit } from './utils';
 import type { ToolboxDefinition } from 'blockly/core/utils/toolbox';
 import { BlockDefinition } from 'blockly/core/blocks';
 import { installAllBlocks } from '@blockly/field-colour';
@@ -21,6 +23,10 @@ import { installAllBlocks } from '@blockly/field-colour';
 export class BlocklyRegistry implements IBlocklyRegistry {
   private _toolboxes: Map<string, ToolboxDefinition>;
   private _generators: Map<string, Blockly.Generator>;
+  private _templates: Map<string, IBlocklyRegistry.Templates>;
+  private _aliases: Map<string, string>;
+  private _toolboxesChanged = new Signal<this, string>(this);
+  private _generatorsChanged = new Signal<this, string>(this);
 
   /**
    * Constructor of BlocklyRegistry.
@@ -34,6 +40,13 @@ export class BlocklyRegistry implements IBlocklyRegistry {
     this._generators.set('javascript', javascriptGenerator);
     this._generators.set('lua', luaGenerator);
 
+    this._templates = new Map<string, IBlocklyRegistry.Templates>();
+
+    this._aliases = new Map<string, string>();
+    this._aliases.set('ipython', 'python');
+    this._aliases.set('ipython3', 'python');
+    this._aliases.set('xpython', 'python');
+
     // register color blocks with their respective language generators
     installAllBlocks({
       javascript: javascriptGenerator,
@@ -56,24 +69,111 @@ export class BlocklyRegistry implements IBlocklyRegistry {
     return this._generators;
   }
 
+  /**
+   * Signal triggered with the name of a toolbox when it is registered,
+   * updated or unregistered.
+   */
+  get toolboxesChanged(): ISignal<this, string> {
+    return this._toolboxesChanged;
+  }
+
+  /**
+   * Signal triggered with the language of a generator when it is registered,
+   * updated or unregistered.
+   */
+  get generatorsChanged(): ISignal<this, string> {
+    return this._generatorsChanged;
+  }
+
   /**
    * Register a toolbox for the editor.
    *
    * @argument name The name of the toolbox.
    *
    * @argument toolbox The toolbox to register.
+   *
+   * #### Notes
+   * If a toolbox already exists with the given name it is updated.
    */
   registerToolbox(name: string, toolbox: ToolboxDefinition): void {
     this._toolboxes.set(name, toolbox);
+    this._toolboxesChanged.emit(name);
+  }
+
+  /**
+   * Unregister a toolbox.
+   *
+   * @argument name The name of the toolbox.
+   *
+   * @returns Whether the toolbox was unregistered.
+   *
+   * #### Notes
+   * The default toolbox cannot be unregistered.
+   */
+  unregisterToolbox(name: string): boolean {
+    if (name === 'default' || !this._toolboxes.delete(name)) {
+      return false;
+    }
+    this._toolboxesChanged.emit(name);
+    return true;
   }
 
   /**
    * Register block definitions.
    *
    * @argument blocks A list of block definitions to register.
+   *
+   * #### Notes
+   * The code templates of the blocks, in their `templates` property, are
+   * compiled into the generators of their languages, including the
+   * generators registered later.
    */
   registerBlocks(blocks: BlockDefinition[]): void {
-    Blockly.defineBlocksWithJsonArray(blocks);
+    const definitions = blocks.map(block => {
+      if (!block.templates) {
+        // The block is no longer generated from the previous templates
+        this._templates.delete(block.type);
+        return block;
+      }
+      const { templates, ...definition } = block;
+      this._templates.set(block.type, templates);
+      Object.entries(templates as IBlocklyRegistry.Templates).forEach(
+        ([language, template]) => {
+          const generator = this._generators.get(language);
+          if (generator) {
+            Private.compileTemplate(generator, block.type, template);
+          }
+        }
+      );
+      return definition;
+    });
+    Blockly.defineBlocksWithJsonArray(definitions);
+  }
+
+  /**
+   * Unregister a block definition.
+   *
+   * @argument type The type of the block.
+   *
+   * @returns Whether the block was unregistered.
+   *
+   * #### Notes
+   * The code compiled from the templates of the block is removed from the
+   * generators.
+   */
+  unregisterBlock(type: string): boolean {
+    if (!Object.prototype.hasOwnProperty.call(Blockly.Blocks, type)) {
+      return false;
+    }
+    delete Blockly.Blocks[type];
+    Object.keys(this._templates.get(type) ?? {}).forEach(language => {
+      const generator = this._generators.get(language);
+      if (generator) {
+        delete generator.forBlock[type];
+      }
+    });
+    this._templates.delete(type);
+    return true;
   }
 
   /**
@@ -88,6 +188,77 @@ export class BlocklyRegistry implements IBlocklyRegistry {
    */
   registerGenerator(language: string, generator: Blockly.Generator): void {
     this._generators.set(language, generator);
+    this._templates.forEach((templates, type) => {
+      if (templates[language] !== undefined) {
+        Private.compileTemplate(generator, type, templates[language]);
+      }
+    });
+    this._generatorsChanged.emit(language);
+  }
+
+  /**
+   * Unregister a language generator.
+   *
+   * @argument language The language output by the generator.
+   *
+   * @returns Whether the generator was unregistered.
+   */
+  unregisterGenerator(language: string): boolean {
+    if (!this._generators.delete(language)) {
+      return false;
+    }
+    this._generatorsChanged.emit(language);
+    return true;
+  }
+
+  /**
+   * Register an alias of a language, e.g. the language of a kernel,
+   * so it uses the generator of the language.
+   *
+   * @argument alias The alias of the language.
+   *
+   * @argument language The language output by the generator.
+   */
+  registerLanguageAlias(alias: string, language: string): void {
+    this._aliases.set(alias, language);
+    this._generatorsChanged.emit(alias);
+  }
+
+  /**
+   * Get the language of the generator to use for a language or an alias.
+   *
+   * @argument language The language or its alias, e.g. the language of a kernel.
+   *
+   * @returns The language of the generator or undefined if there is none.
+   */
+  getLanguage(language: string): string | undefined {
+    if (this._generators.has(language)) {
+      return language;
+    }
+    const alias = this._aliases.get(language);
+    return alias !== undefined && this._generators.has(alias)
+      ? alias
+      : undefined;
+  }
+
+  /**
+   * Generate the code of a workspace, after the toplevel_init code of its
+   * blocks, e.g. to share the code of a workspace embedded in a notebook.
+   *
+   * @argument workspace The workspace.
+   * @argument language The language of the code or its alias.
+   *
+   * @returns The code or null if there is no generator for the language.
+   */
+  generateCode(workspace: Blockly.Workspace, language: string): string | null {
+    const generatorLanguage = this.getLanguage(language);
+    if (generatorLanguage === undefined) {
+      return null;
+    }
+    return (
+      getToplevelInit(workspace.getAllBlocks(true)) +
+      this._generators.get(generatorLanguage).workspaceToCode(workspace)
+    );
   }
 
   setlanguage(language: string): void {
@@ -96,6 +267,117 @@ export class BlocklyRegistry implements IBlocklyRegistry {
 }
 
 namespace Private {
+  /**
+   * The placeholders of the inputs and fields in a code template.
+   */
+  const PLACEHOLDER_REGEX = /{{\s*(\w+)\s*}}/g;
+
+  /**
+   * The operator precedence of atomic code, shared by the built-in generators.
+   */
+  const ORDER_ATOMIC = 0;
+
+  /**
+   * The operator precedence of code which is never wrapped in parentheses,
+   * shared by the built-in generators.
+   */
+  const ORDER_NONE = 99;
+
+  /**
+   * A generator compiling code templates, with the statement of an empty
+   * body of its language, e.g. `pass` in Python.
+   */
+  type TemplateGenerator = Blockly.CodeGenerator & { PASS?: string };
+
+  /**
+   * The definitions of a generator, added at the top of the code.
+   *
+   * #### Notes
+   * Blockly declares them as protected, but the generators of the blocks
+   * fill them, e.g. with the imports.
+   */
+  interface IDefinitions {
+    definitions_: { [name: string]: string };
+  }
+
+  /**
+   * Get the definitions of a generator, added at the top of the code.
+   */
+  export function getDefinitions(generator: Blockly.CodeGenerator): {
+    [name: string]: string;
+  } {
+    return (generator as unknown as IDefinitions).definitions_;
+  }
+
+  /**
+   * Compile the code template of a block into a generator.
+   *
+   * @param generator The generator of the template language.
+   * @param type The type of the block.
+   * @param template The code template.
+   */
+  export function compileTemplate(
+    generator: TemplateGenerator,
+    type: string,
+    template: IBlocklyRegistry.Template
+  ): void {
+    const options: IBlocklyRegistry.ITemplate =
+      typeof template === 'string' ? { code: template } : template;
+    const {
+      code,
+      order = ORDER_NONE,
+      input_orders = {},
+      toplevel_init
+    } = options;
+
+    generator.forBlock[type] = block => {
+      if (toplevel_init) {
+        // The definitions are added once at the top of the code.
+        getDefinitions(generator)[`toplevel_init_${type}`] = toplevel_init;
+      }
+      const result = code.replace(PLACEHOLDER_REGEX, (placeholder, name) =>
+        getCode(generator, block, name, placeholder, input_orders[name])
+      );
+      if (block.outputConnection) {
+        return [result, order];
+      }
+      return result.endsWith('\n') ? result : result + '\n';
+    };
+  }
+
+  /**
+   * Get the code replacing a placeholder: the code of the input or the
+   * value of the field with the given name.
+   *
+   * The code of a value input is wrapped in parentheses unless it binds
+   * more tightly than the given order around the placeholder.
+   */
+  export function getCode(
+    generator: TemplateGenerator,
+    block: Blockly.Block,
+    name: string,
+    placeholder: string,
+    order = ORDER_ATOMIC
+  ): string {
+    const input = block.getInput(name);
+    if (input?.type === Blockly.inputs.inputTypes.VALUE) {
+      return generator.valueToCode(block, name, order);
+    }
+    if (input?.type === Blockly.inputs.inputTypes.STATEMENT) {
+      // An empty body is not valid in every language (e.g. Python)
+      return generator.statementToCode(block, name) || (generator.PASS ?? '');
+    }
+    const field = block.getField(name);
+    if (field instanceof Blockly.FieldVariable) {
+      return generator.getVariableName(field.getValue());
+    }
+    if (field) {
+      return String(field.getValue() ?? '');
+    }
+    console.warn(`Unknown input or field in the template of ${block.type}`);
+    return placeholder;
+  }
+
   // Dynamically importing the language modules needed for each respective
   // user, in order to change the Blockly language in accordance to the
   // JL one.
@@ -200,8 +482,6 @@ namespace Private {
 
     // Setting the current language in Blockly.
     module.then(lang => {
-      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-      // @ts-ignore
       Blockly.setLocale(lang);
     });
   }
@@ -0,0 +1,217 @@
+import * as Blockly from 'blockly';
+import type {
+  BlockInfo,
+  FlyoutItemInfo,
+  ToolboxDefinition,
+  ToolboxInfo,
+  ToolboxItemInfo
+} from 'blockly/core/utils/toolbox';
+
+/**
+ * A toolbox category with a search box, showing the blocks of the other
+ * categories matching the search in its flyout.
+ *
+ * The blocks are matched by their type, tooltip and text. The hidden
+ * categories and the disabled blocks, e.g. the blocks which are not
+ * allowed in an exercise, are not searched.
+ */
+export class ToolboxSearchCategory extends Blockly.ToolboxCategory {
+  private _input: HTMLInputElement | null = null;
+  private _index: ToolboxSearchCategory.IIndexedBlock[] | null = null;
+
+  /**
+   * Select the category, showing the results of the search.
+   */
+  setSelected(isSelected: boolean): void {
+    super.setSelected(isSelected);
+    if (!this._input) {
+      return;
+    }
+    if (isSelected) {
+      this._input.focus();
+      this._search();
+    } else {
+      this._input.value = '';
+      this._input.blur();
+    }
+  }
+
+  /**
+   * Create the search box in place of the label of the category.
+   */
+  protected createLabelDom_(name: string): Element {
+    const label = super.createLabelDom_(name);
+    const input = document.createElement('input');
+    input.id = label.id;
+    input.type = 'search';
+    input.className = `${label.className} jp-blockly-toolboxSearch`;
+    input.placeholder = name;
+    // The toolbox selects its categories with the keyboard
+    input.addEventListener('keydown', event => {
+      event.stopPropagation();
+      if (event.key === 'Escape') {
+        this.parentToolbox_.clearSelection();
+      }
+    });
+    // Clicking the selected category closes it
+    input.addEventListener('click', event => {
+      if (this.parentToolbox_.getSelectedItem() === this) {
+        event.stopPropagation();
+      }
+    });
+    input.addEventListener('input', () => {
+      if (this.parentToolbox_.getSelectedItem() === this) {
+        this._search();
+      } else {
+        (this.parentToolbox_ as Blockly.Toolbox).setSelectedItem(this);
+      }
+    });
+    this._input = input;
+    return input;
+  }
+
+  /**
+   * Show the blocks matching the search in the flyout.
+   */
+  private _search(): void {
+    const words = this._input.value.toLowerCase().split(/\s+/).filter(Boolean);
+    if (!this._index) {
+      // The category is created again when the toolbox changes
+      this._index = ToolboxSearchCategory.indexBlocks(
+        this.workspace_.options.languageTree
+      );
+    }
+    const blocks: FlyoutItemInfo[] = words.length
+      ? this._index
+          .filter(block => words.every(word => block.text.includes(word)))
+          .map(block => block.info)
+      : [];
+    this.flyoutItems_ = blocks.length
+      ? blocks
+      : [
+          {
+            kind: 'label',
+            text: words.length
+              ? 'No matching blocks'
+              : 'Type to search the blocks'
+          }
+        ];
+    this.parentToolbox_.refreshSelection();
+  }
+}
+
+/**
+ * A namespace for ToolboxSearchCategory statics.
+ */
+export namespace ToolboxSearchCategory {
+  /**
+   * The kind of the search category in the toolbox definitions.
+   */
+  export const KIND = 'search';
+
+  /**
+   * Register the search category in Blockly, once.
+   */
+  export function register(): void {
+    if (!Blockly.registry.hasItem(Blockly.registry.Type.TOOLBOX_ITEM, KIND)) {
+      Blockly.registry.register(
+        Blockly.registry.Type.TOOLBOX_ITEM,
+        KIND,
+        ToolboxSearchCategory
+      );
+    }
+  }
+
+  /**
+   * Add the search category at the top of a toolbox with categories.
+   *
+   * @param toolbox The toolbox definition, which is not modified.
+   * @returns The toolbox with a search category, or the same toolbox if it
+   * has no categories or already has a search category.
+   */
+  export function addTo(toolbox: ToolboxDefinition): ToolboxDefinition {
+    const info = toolbox as ToolboxInfo;
+    if (
+      !info ||
+      info.kind !== 'categoryToolbox' ||
+      info.contents.some(item => item.kind === KIND)
+    ) {
+      return toolbox;
+    }
+    return {
+      ...info,
+      contents: [
+        { kind: KIND, name: 'Search blocks', contents: [] } as ToolboxItemInfo,
+        ...info.contents
+      ]
+    };
+  }
+
+  /**
+   * A block of the toolbox with the text searched.
+   */
+  export interface IIndexedBlock {
+    /**
+     * The block in the toolbox definition.
+     */
+    info: BlockInfo;
+
+    /**
+     * The type, tooltip and text of the block, in lower case.
+     */
+    text: string;
+  }
+
+  /**
+   * List the visible blocks of a toolbox, with their text.
+   */
+  export function indexBlocks(toolbox: ToolboxInfo | null): IIndexedBlock[] {
+    const blocks = new Map<string, IIndexedBlock>();
+    // A workspace without rendering, to read the text of the blocks
+    const workspace = new Blockly.Workspace();
+    const visit = (contents: ToolboxItemInfo[] | undefined) => {
+      contents?.forEach(item => {
+        const kind = item.kind?.toLowerCase();
+        if (kind === 'category') {
+          if (String((item as { hidden?: string }).hidden) !== 'true') {
+            visit((item as { contents?: ToolboxItemInfo[] }).contents);
+          }
+        } else if (kind === 'block') {
+          const info = item as BlockInfo;
+          if (info.type && !info.disabled && !blocks.has(info.type)) {
+            blocks.set(info.type, {
+              info,
+              text: Private.getText(workspace, info.type).toLowerCase()
+            });
+          }
+        }
+      });
+    };
+    try {
+      visit(toolbox?.contents);
+    } finally {
+      workspace.dispose();
+    }
+    return Array.from(blocks.values());
+  }
+}
+
+namespace Private {
+  /**
+   * Get the type, tooltip and text of the fields of a block.
+   */
+  export function getText(workspace: Blockly.Workspace, type: string): string {
+    const text = [type, type.replace(/_/g, ' ')];
+    try {
+      const block = workspace.newBlock(type);
+      text.push(Blockly.Tooltip.getTooltipOfObject(block));
+      block.inputList.forEach(input =>
+        input.fieldRow.forEach(field => text.push(field.getText()))
+      );
+    } catch (reason) {
+      // The block is not defined
+      console.warn(`Cannot search the block ${type}`, reason);
+    }
+    return text.join(' ');
+  }
+}
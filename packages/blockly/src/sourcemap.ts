@@ -0,0 +1,219 @@
+import { CodeEditor } from '@jupyterlab/codeeditor';
+import { CodeMirrorEditor } from '@jupyterlab/codemirror';
+
+import { StateEffect, StateField } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView } from '@codemirror/view';
+
+import * as Blockly from 'blockly';
+
+/**
+ * A map between the lines of the generated code and the ids
+ * of the blocks that produced them.
+ */
+export class SourceMap {
+  private _lines: (string | null)[];
+
+  /**
+   * Construct a `SourceMap`.
+   *
+   * @param lines The id of the block that produced each line, or null.
+   */
+  constructor(lines: (string | null)[]) {
+    this._lines = lines;
+  }
+
+  /**
+   * The number of lines in the code.
+   */
+  get length(): number {
+    return this._lines.length;
+  }
+
+  /**
+   * Get the id of the block that produced a line.
+   *
+   * @param line The line number, starting at 0.
+   * @returns The id of the block or null if the line is not produced by a block.
+   */
+  getBlockId(line: number): string | null {
+    return this._lines[line] ?? null;
+  }
+
+  /**
+   * Get the lines produced by some blocks.
+   *
+   * @param ids The ids of the blocks.
+   * @returns The line numbers, starting at 0.
+   */
+  getLines(ids: string[]): number[] {
+    const lines: number[] = [];
+    this._lines.forEach((id, line) => {
+      if (id !== null && ids.includes(id)) {
+        lines.push(line);
+      }
+    });
+    return lines;
+  }
+}
+
+/**
+ * A namespace for SourceMap statics.
+ */
+export namespace SourceMap {
+  /**
+   * The generated code with its source map.
+   */
+  export interface IResult {
+    code: string;
+    sourceMap: SourceMap;
+  }
+
+  /**
+   * The kind of line highlighting.
+   */
+  export type Highlight = 'selected' | 'error';
+
+  /**
+   * Generate code while tracking the blocks producing each line.
+   *
+   * The generator is temporarily configured to inject a marker with the
+   * block id before the code of each statement, which is removed from
+   * the final code.
+   *
+   * @param generator The generator used in the callback.
+   * @param generate A callback generating the code.
+   * @returns The generated code and its source map.
+   */
+  export function generate(
+    generator: Blockly.Generator,
+    generate: () => string
+  ): IResult {
+    const prefix = generator.STATEMENT_PREFIX;
+    generator.STATEMENT_PREFIX = `${Private.MARKER}%1\n`;
+    let output: string;
+    try {
+      output = generate();
+    } finally {
+      generator.STATEMENT_PREFIX = prefix;
+    }
+    return Private.parse(output);
+  }
+
+  /**
+   * Highlight some lines of a cell editor, replacing the previous
+   * highlighting of the same kind.
+   *
+   * @param editor The editor.
+   * @param lines The line numbers, starting at 0.
+   * @param kind The kind of highlighting.
+   */
+  export function highlightLines(
+    editor: CodeEditor.IEditor | null,
+    lines: number[],
+    kind: Highlight
+  ): void {
+    if (!(editor instanceof CodeMirrorEditor)) {
+      return;
+    }
+    if (!Private.editors.has(editor)) {
+      Private.editors.add(editor);
+      editor.injectExtension(Private.highlightField);
+    }
+    editor.editor.dispatch({
+      effects: Private.setHighlight.of({ kind, lines })
+    });
+  }
+}
+
+namespace Private {
+  /**
+   * The marker injected before the code of a block.
+   */
+  export const MARKER = '@@jp-blockly@@';
+
+  const MARKER_REGEX = /@@jp-blockly@@'([^']*)'/g;
+
+  /**
+   * The editors where the highlight extension is installed.
+   */
+  export const editors = new WeakSet<CodeMirrorEditor>();
+
+  /**
+   * Remove the markers from the generated code and build the source map.
+   *
+   * A line belongs to the last block whose marker is not indented deeper
+   * than the line, which attributes the closing lines of a block (e.g.
+   * `else:` or `}`) to the block and not to its last child.
+   */
+  export function parse(output: string): SourceMap.IResult {
+    const code: string[] = [];
+    const ids: (string | null)[] = [];
+    const stack: { id: string; indent: number }[] = [];
+
+    output.split('\n').forEach(line => {
+      const indent = line.match(/^\s*/)[0].length;
+      const text = line.replace(MARKER_REGEX, '');
+      if (text.trim() !== '') {
+        while (stack.length && stack[stack.length - 1].indent > indent) {
+          stack.pop();
+        }
+      }
+
+      const regex = new RegExp(MARKER_REGEX);
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(line)) !== null) {
+        while (stack.length && stack[stack.length - 1].indent >= indent) {
+          stack.pop();
+        }
+        stack.push({ id: match[1], indent });
+      }
+
+      // Keep the line unless it only contained markers
+      if (text.length === line.length || text.trim() !== '') {
+        code.push(text);
+        ids.push(
+          stack.length && text.trim() !== '' ? stack[stack.length - 1].id : null
+        );
+      }
+    });
+    return { code: code.join('\n'), sourceMap: new SourceMap(ids) };
+  }
+
+  /**
+   * The effect setting the highlighted lines of a kind.
+   */
+  export const setHighlight = StateEffect.define<{
+    kind: SourceMap.Highlight;
+    lines: number[];
+  }>();
+
+  /**
+   * The field holding the line decorations.
+   */
+  export const highlightField = StateField.define<DecorationSet>({
+    create: () => Decoration.none,
+    update: (decorations, transaction) => {
+      decorations = decorations.map(transaction.changes);
+      for (const effect of transaction.effects) {
+        if (effect.is(setHighlight)) {
+          const { kind, lines } = effect.value;
+          const doc = transaction.state.doc;
+          decorations = decorations.update({
+            filter: (from, to, value) => value.spec.kind !== kind,
+            add: lines
+              .filter(line => line < doc.lines)
+              .map(line =>
+                Decoration.line({
+                  class: `jp-blockly-${kind}Line`,
+                  kind
+                }).range(doc.line(line + 1).from)
+              ),
+            sort: true
+          });
+        }
+      }
+      return decorations;
+    },
+    provide: field => EditorView.decorations.from(field)
+  });
+}
@@ -0,0 +1,249 @@
+import { ISessionContext } from '@jupyterlab/apputils';
+import { CodeCell } from '@jupyterlab/cells';
+import { OutputArea } from '@jupyterlab/outputarea';
+import { KernelMessage } from '@jupyterlab/services';
+
+import { ISignal, Signal } from '@lumino/signaling';
+
+import * as Blockly from 'blockly';
+
+/**
+ * Run the generated code step by step.
+ *
+ * The code is instrumented to request an input from the frontend before
+ * each block, with the id of the block in the prompt. The stepper answers
+ * the requests right away while running, and waits for the user to step
+ * or resume while paused.
+ */
+export class Stepper {
+  private _state: Stepper.State = 'idle';
+  private _block: string | null = null;
+  private _next: ((proceed: boolean) => void) | null = null;
+  private _stateChanged = new Signal<this, Stepper.State>(this);
+  private _blockChanged = new Signal<this, string | null>(this);
+
+  /**
+   * The state of the step-by-step execution.
+   */
+  get state(): Stepper.State {
+    return this._state;
+  }
+
+  /**
+   * The id of the block about to run, or null if there is none.
+   */
+  get block(): string | null {
+    return this._block;
+  }
+
+  /**
+   * Signal emitted when the state changes.
+   */
+  get stateChanged(): ISignal<this, Stepper.State> {
+    return this._stateChanged;
+  }
+
+  /**
+   * Signal emitted when a block is about to run, or with null when the
+   * execution ends.
+   */
+  get blockChanged(): ISignal<this, string | null> {
+    return this._blockChanged;
+  }
+
+  /**
+   * Start a step-by-step execution, paused before the first block.
+   */
+  start(): void {
+    this._setState('paused');
+  }
+
+  /**
+   * End the step-by-step execution. The kernel waiting for the pending
+   * step is interrupted.
+   *
+   * @returns Whether there was a pending step.
+   */
+  stop(): boolean {
+    const next = this._next;
+    this._next = null;
+    this._setBlock(null);
+    this._setState('idle');
+    next?.(false);
+    return next !== null;
+  }
+
+  /**
+   * Run the block the execution is paused before, and pause before the
+   * next one.
+   */
+  step(): void {
+    const next = this._next;
+    this._next = null;
+    next?.(true);
+  }
+
+  /**
+   * Run the next blocks without pausing.
+   */
+  resume(): void {
+    if (this._state === 'paused') {
+      this._setState('running');
+      this.step();
+    }
+  }
+
+  /**
+   * Pause before the next block.
+   */
+  pause(): void {
+    if (this._state === 'running') {
+      this._setState('paused');
+    }
+  }
+
+  /**
+   * Execute instrumented code in a cell, following the steps of the
+   * execution.
+   *
+   * @param cell The cell showing the outputs.
+   * @param code The code generated with `Stepper.instrument`.
+   * @param sessionContext The session context of the kernel.
+   */
+  async execute(
+    cell: CodeCell,
+    code: string,
+    sessionContext: ISessionContext
+  ): Promise<void> {
+    const model = cell.model;
+    model.sharedModel.transact(() => model.clearExecution(), false);
+    cell.setPrompt('*');
+
+    // The future of the execution is set synchronously
+    const done = OutputArea.execute(code, cell.outputArea, sessionContext);
+    const future = cell.outputArea.future;
+    const onStdin = future.onStdin;
+    future.onStdin = msg => {
+      if (
+        KernelMessage.isInputRequestMsg(msg) &&
+        msg.content.prompt.startsWith(Private.PROMPT)
+      ) {
+        this._wait(msg.content.prompt.slice(Private.PROMPT.length)).then(
+          proceed => {
+            if (proceed) {
+              future.sendInputReply({ status: 'ok', value: '' }, msg.header);
+            } else {
+              // The kernel would wait for the input reply forever
+              void sessionContext.session?.kernel?.interrupt();
+            }
+          }
+        );
+        return;
+      }
+      // The inputs requested by the code itself
+      return onStdin(msg);
+    };
+
+    try {
+      const reply = await done;
+      model.executionCount = reply?.content.execution_count ?? null;
+    } catch (reason) {
+      cell.setPrompt('');
+      throw reason;
+    } finally {
+      this._setBlock(null);
+    }
+  }
+
+  /**
+   * Wait before running a block, while paused.
+   *
+   * @returns Whether the execution proceeds, false if it was stopped.
+   */
+  private _wait(id: string): Promise<boolean> {
+    this._setBlock(id);
+    if (this._state === 'running') {
+      return Promise.resolve(true);
+    }
+    if (this._state === 'idle') {
+      return Promise.resolve(false);
+    }
+    return new Promise(resolve => {
+      this._next = resolve;
+    });
+  }
+
+  private _setState(state: Stepper.State): void {
+    if (this._state !== state) {
+      this._state = state;
+      this._stateChanged.emit(state);
+    }
+  }
+
+  private _setBlock(id: string | null): void {
+    if (this._block !== id) {
+      this._block = id;
+      this._blockChanged.emit(id);
+    }
+  }
+}
+
+/**
+ * A namespace for Stepper statics.
+ */
+export namespace Stepper {
+  /**
+   * The state of a step-by-step execution.
+   */
+  export type State = 'idle' | 'running' | 'paused';
+
+  /**
+   * The code requesting an input before each block, by language.
+   * `%1` is replaced by the quoted id of the block and `%2` by the
+   * prompt identifying the requests of the stepper.
+   */
+  export const statementPrefixes = new Map<string, string>([
+    ['python', "input('%2' + %1)\n"]
+  ]);
+
+  /**
+   * Whether the code generated in a language can run step by step.
+   *
+   * @param language The language of the generated code.
+   */
+  export function isSupported(language: string): boolean {
+    return statementPrefixes.has(language);
+  }
+
+  /**
+   * Generate instrumented code pausing before each block.
+   *
+   * @param generator The generator used in the callback.
+   * @param language The language of the generator.
+   * @param generate A callback generating the code.
+   * @returns The instrumented code.
+   */
+  export function instrument(
+    generator: Blockly.Generator,
+    language: string,
+    generate: () => string
+  ): string {
+    const prefix = generator.STATEMENT_PREFIX;
+    generator.STATEMENT_PREFIX = statementPrefixes
+      .get(language)
+      .replace('%2', Private.PROMPT);
+    try {
+      return generate();
+    } finally {
+      generator.STATEMENT_PREFIX = prefix;
+    }
+  }
+}
+
+namespace Private {
+  /**
+   * The prompt of the input requests of the stepper, followed by the
+   * id of the block.
+   */
+  export const PROMPT = 'blockly-step:';
+}
@@ -0,0 +1,326 @@
+import { ISharedFile, YDocument } from '@jupyter/ydoc';
+
+import { IDisposable } from '@lumino/disposable';
+
+import * as Blockly from 'blockly';
+import * as Y from 'yjs';
+
+/**
+ * WorkspaceSync synchronizes a Blockly workspace with the shared model
+ * of the document, so edits, moves and deletions are shared live between
+ * the views of the document and the collaborators.
+ *
+ * Each top-level block stack and each variable is stored serialized in a
+ * shared map, so concurrent edits of different stacks are merged while
+ * concurrent edits of the same stack keep the last one.
+ */
+export class WorkspaceSync implements IDisposable {
+  private _workspace: Blockly.WorkspaceSvg;
+  private _ydoc: Y.Doc;
+  private _blocks: Y.Map<string>;
+  private _variables: Y.Map<string>;
+  private _meta: Y.Map<string>;
+  private _group: string;
+  private _isDisposed = false;
+
+  /**
+   * Construct a `WorkspaceSync`.
+   *
+   * If the shared model already holds a workspace shared from the same
+   * version of the file, e.g. another view or collaborator is editing the
+   * document, it replaces the local workspace. Otherwise the local
+   * workspace is shared.
+   *
+   * @param workspace The workspace to synchronize.
+   * @param sharedModel The shared model of the document.
+   * @param lastModified The last modified time of the file the workspace
+   * was loaded from, or null if it is unknown.
+   */
+  constructor(
+    workspace: Blockly.WorkspaceSvg,
+    sharedModel: ISharedFile,
+    lastModified: string | null
+  ) {
+    if (!(sharedModel instanceof YDocument)) {
+      throw new Error('The shared model of the document has no Y document.');
+    }
+    this._workspace = workspace;
+    this._ydoc = sharedModel.ydoc;
+    this._blocks = this._ydoc.getMap<string>('blockly:blocks');
+    this._variables = this._ydoc.getMap<string>('blockly:variables');
+    this._meta = this._ydoc.getMap<string>('blockly:meta');
+    // The events group of the changes coming from the shared model.
+    this._group = `jp-blockly-sync-${Blockly.utils.idGenerator.genUid()}`;
+
+    // The shared workspace is outdated when the file changed since it was
+    // shared, e.g. the file was replaced on the disk
+    const isOutdated =
+      lastModified !== null && this._meta.get('lastModified') !== lastModified;
+    if ((this._blocks.size === 0 && this._variables.size === 0) || isOutdated) {
+      this._push();
+      this.setLastModified(lastModified);
+    } else {
+      this._pull();
+    }
+
+    this._workspace.addChangeListener(this._onWorkspaceChanged);
+    this._blocks.observe(this._onBlocksChanged);
+    this._variables.observe(this._onVariablesChanged);
+  }
+
+  /**
+   * Whether the synchronization is disposed.
+   */
+  get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * Dispose of the resources held by the synchronization.
+   */
+  dispose(): void {
+    if (this._isDisposed) {
+      return;
+    }
+    this._isDisposed = true;
+    this._workspace.removeChangeListener(this._onWorkspaceChanged);
+    this._blocks.unobserve(this._onBlocksChanged);
+    this._variables.unobserve(this._onVariablesChanged);
+  }
+
+  /**
+   * Whether a workspace event applies a change coming from the shared
+   * model, e.g. the edit of a collaborator.
+   *
+   * @param event The workspace event.
+   */
+  isRemote(event: Blockly.Events.Abstract): boolean {
+    return event.group === this._group;
+  }
+
+  /**
+   * Record the last modified time of the file the shared workspace was
+   * saved to, so the next views of the document keep the shared workspace.
+   *
+   * @param lastModified The last modified time of the file.
+   */
+  setLastModified(lastModified: string | null): void {
+    if (lastModified !== null) {
+      this._ydoc.transact(
+        () => this._meta.set('lastModified', lastModified),
+        this
+      );
+    }
+  }
+
+  /**
+   * Write the local workspace to the shared model.
+   */
+  private _push(): void {
+    const blocks = new Map<string, string>();
+    this._workspace.getTopBlocks(false).forEach(block => {
+      const state = Blockly.serialization.blocks.save(block, {
+        addCoordinates: true
+      });
+      blocks.set(block.id, JSON.stringify(state));
+    });
+
+    this._ydoc.transact(() => {
+      this._pushVariables();
+      Private.updateMap(this._blocks, blocks);
+    }, this);
+  }
+
+  /**
+   * Write the stacks of the given blocks to the shared model, and remove
+   * the stacks of the blocks which are no longer top-level blocks.
+   *
+   * @param ids The ids of the changed blocks.
+   */
+  private _pushStacks(ids: Set<string>): void {
+    const stacks = new Map<string, string | null>();
+    ids.forEach(id => {
+      const block = this._workspace.getBlockById(id);
+      if ((!block || block.getParent()) && this._blocks.has(id)) {
+        stacks.set(id, null);
+      }
+      const root = block?.getRootBlock();
+      if (root) {
+        const state = Blockly.serialization.blocks.save(root, {
+          addCoordinates: true
+        });
+        stacks.set(root.id, JSON.stringify(state));
+      }
+    });
+
+    this._ydoc.transact(() => {
+      stacks.forEach((value, id) => {
+        if (value === null) {
+          this._blocks.delete(id);
+        } else if (this._blocks.get(id) !== value) {
+          this._blocks.set(id, value);
+        }
+      });
+    }, this);
+  }
+
+  /**
+   * Write the variables of the local workspace to the shared model.
+   */
+  private _pushVariables(): void {
+    const variables = new Map<string, string>();
+    this._workspace.getAllVariables().forEach(variable => {
+      variables.set(
+        variable.getId(),
+        JSON.stringify({ name: variable.name, type: variable.type })
+      );
+    });
+    this._ydoc.transact(
+      () => Private.updateMap(this._variables, variables),
+      this
+    );
+  }
+
+  /**
+   * Replace the local workspace with the one in the shared model.
+   */
+  private _pull(): void {
+    const state = {
+      blocks: {
+        languageVersion: 0,
+        blocks: [...this._blocks.values()].map(value => JSON.parse(value))
+      },
+      variables: [...this._variables.entries()].map(([id, value]) => ({
+        id,
+        ...JSON.parse(value)
+      }))
+    };
+    this._applyRemote(() =>
+      Blockly.serialization.workspaces.load(state, this._workspace)
+    );
+  }
+
+  /**
+   * Apply changes coming from the shared model in their own events group,
+   * so they are not written back, and out of the undo stack, so undoing
+   * does not revert the edits of the collaborators.
+   */
+  private _applyRemote(apply: () => void): void {
+    const group = Blockly.Events.getGroup();
+    const recordUndo = Blockly.Events.getRecordUndo();
+    Blockly.Events.setGroup(this._group);
+    Blockly.Events.setRecordUndo(false);
+    try {
+      apply();
+    } finally {
+      Blockly.Events.setRecordUndo(recordUndo);
+      Blockly.Events.setGroup(group || false);
+    }
+  }
+
+  private _onWorkspaceChanged = (event: Blockly.Events.Abstract): void => {
+    if (event.isUiEvent || this.isRemote(event)) {
+      return;
+    }
+    if (event instanceof Blockly.Events.VarBase) {
+      this._pushVariables();
+    } else if (event instanceof Blockly.Events.BlockBase) {
+      const ids = new Set<string>();
+      if (event.blockId) {
+        ids.add(event.blockId);
+      }
+      // A block moved out of a stack changes its previous stack too
+      if (event instanceof Blockly.Events.BlockMove && event.oldParentId) {
+        ids.add(event.oldParentId);
+      }
+      this._pushStacks(ids);
+    } else {
+      this._push();
+    }
+  };
+
+  private _onBlocksChanged = (event: Y.YMapEvent<string>): void => {
+    if (event.transaction.origin === this) {
+      return;
+    }
+    this._applyRemote(() => {
+      // Remove the outdated stacks before adding the new ones,
+      // since blocks can move between stacks.
+      event.keysChanged.forEach(id => {
+        this._workspace.getBlockById(id)?.dispose(false);
+      });
+      event.keysChanged.forEach(id => {
+        const value = this._blocks.get(id);
+        if (value === undefined) {
+          return;
+        }
+        const state = JSON.parse(value) as Blockly.serialization.blocks.State;
+        Private.getIds(state).forEach(blockId => {
+          this._workspace.getBlockById(blockId)?.dispose(false);
+        });
+        Blockly.serialization.blocks.append(state, this._workspace);
+      });
+    });
+  };
+
+  private _onVariablesChanged = (event: Y.YMapEvent<string>): void => {
+    if (event.transaction.origin === this) {
+      return;
+    }
+    this._applyRemote(() => {
+      event.keysChanged.forEach(id => {
+        const value = this._variables.get(id);
+        const variable = this._workspace.getVariableById(id);
+        if (value === undefined) {
+          if (variable) {
+            this._workspace.deleteVariableById(id);
+          }
+          return;
+        }
+        const { name, type } = JSON.parse(value);
+        if (!variable) {
+          this._workspace.createVariable(name, type, id);
+        } else if (variable.name !== name) {
+          this._workspace.renameVariableById(id, name);
+        }
+      });
+    });
+  };
+}
+
+namespace Private {
+  /**
+   * Update a shared map to match the given values.
+   */
+  export function updateMap(map: Y.Map<string>, values: Map<string, string>) {
+    [...map.keys()].forEach(key => {
+      if (!values.has(key)) {
+        map.delete(key);
+      }
+    });
+    values.forEach((value, key) => {
+      if (map.get(key) !== value) {
+        map.set(key, value);
+      }
+    });
+  }
+
+  /**
+   * Get the ids of the blocks in a serialized block stack.
+   */
+  export function getIds(state: Blockly.serialization.blocks.State): string[] {
+    const ids: string[] = state.id ? [state.id] : [];
+    Object.values(state.inputs ?? {}).forEach(input => {
+      if (input.block) {
+        ids.push(...getIds(input.block));
+      }
+      if (input.shadow) {
+        ids.push(...getIds(input.shadow));
+      }
+    });
+    if (state.next?.block) {
+      ids.push(...getIds(state.next.block));
+    }
+    return ids;
+  }
+}
@@ -1,4 +1,5 @@
 import { Token } from '@lumino/coreutils';
+import { ISignal } from '@lumino/signaling';
 
 import * as Blockly from 'blockly';
 import type { BlockDefinition } from 'blockly/core/blocks';
@@ -18,22 +19,63 @@ export const IBlocklyRegistry = new Token<IBlocklyRegistry>(
  * Blockly editor.
  */
 export interface IBlocklyRegistry {
+  /**
+   * Signal triggered with the name of a toolbox when it is registered,
+   * updated or unregistered.
+   */
+  readonly toolboxesChanged: ISignal<IBlocklyRegistry, string>;
+
+  /**
+   * Signal triggered with the language of a generator when it is registered,
+   * updated or unregistered.
+   */
+  readonly generatorsChanged: ISignal<IBlocklyRegistry, string>;
+
   /**
    * Register a toolbox for the editor.
    *
    * @argument name The name of the toolbox.
    *
    * @argument toolbox The toolbox to register.
+   *
+   * #### Notes
+   * If a toolbox already exists with the given name it is updated.
    */
   registerToolbox(name: string, toobox: ToolboxDefinition): void;
 
+  /**
+   * Unregister a toolbox.
+   *
+   * @argument name The name of the toolbox.
+   *
+   * @returns Whether the toolbox was unregistered.
+   *
+   * #### Notes
+   * The default toolbox cannot be unregistered.
+   */
+  unregisterToolbox(name: string): boolean;
+
   /**
    * Register block definitions.
    *
    * @argument blocks A list of block definitions to register.
+   *
+   * #### Notes
+   * A JSON definition can hold the code of the block for each language in
+   * its `templates` property, e.g. `{ "python": "print({{TEXT}})" }`,
+   * which is compiled into the generators of these languages.
    */
   registerBlocks(blocks: BlockDefinition[]): void;
 
+  /**
+   * Unregister a block definition.
+   *
+   * @argument type The type of the block.
+   *
+   * @returns Whether the block was unregistered.
+   */
+  unregisterBlock(type: string): boolean;
+
   /**
    * Register a language generator.
    *
@@ -45,4 +87,71 @@ export interface IBlocklyRegistry {
    * If a generator already exists for the given language it is overwritten.
    */
   registerGenerator(language: string, generator: Blockly.Generator): void;
+
+  /**
+   * Unregister a language generator.
+   *
+   * @argument language The language output by the generator.
+   *
+   * @returns Whether the generator was unregistered.
+   */
+  unregisterGenerator(language: string): boolean;
+
+  /**
+   * Register an alias of a language, e.g. the language of a kernel,
+   * so it uses the generator of the language.
+   *
+   * @argument alias The alias of the language.
+   *
+   * @argument language The language output by the generator.
+   */
+  registerLanguageAlias(alias: string, language: string): void;
+}
+
+/**
+ * A namespace for IBlocklyRegistry statics.
+ */
+export namespace IBlocklyRegistry {
+  /**
+   * The code template of a block for a language.
+   *
+   * The `{{NAME}}` placeholders are replaced with the code of the input or
+   * the value of the field named `NAME`.
+   */
+  export type Template = string | ITemplate;
+
+  /**
+   * The code template of a block with its options.
+   */
+  export interface ITemplate {
+    /**
+     * The code of the block.
+     */
+    code: string;
+
+    /**
+     * The operator precedence of the code of a block with an output,
+     * defaults to none (99): the code is wrapped in parentheses in the
+     * other blocks.
+     */
+    order?: number;
+
+    /**
+     * The operator precedence around the placeholders of the value inputs
+     * by name, defaults to atomic (0): the code of the inputs is wrapped
+     * in parentheses unless it is atomic.
+     */
+    input_orders?: { [name: string]: number };
+
+    /**
+     * The code needed once at the top of the program by the block,
+     * e.g. imports.
+     */
+    toplevel_init?: string;
+  }
+
+  /**
+   * The code templates of a block by language.
+   */
+  export type Templates = { [language: string]: Template };
 }
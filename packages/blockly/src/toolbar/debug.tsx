@@ -0,0 +1,74 @@
+import { ToolbarButtonComponent } from '@jupyterlab/apputils';
+import {
+  bugIcon,
+  caretRightIcon,
+  fastForwardIcon,
+  stopIcon
+} from '@jupyterlab/ui-components';
+
+import React from 'react';
+
+import { Stepper } from './../stepper';
+import { BlocklyButton } from './utils';
+
+export namespace DebugControls {
+  export interface IOptions extends ToolbarButtonComponent.IProps {
+    stepper: Stepper;
+    onDebug: () => void;
+  }
+}
+
+/**
+ * The buttons starting a step-by-step execution, and stepping, pausing
+ * and resuming it.
+ */
+export class DebugControls extends BlocklyButton {
+  private _stepper: Stepper;
+  private _onDebug: () => void;
+
+  constructor(props: DebugControls.IOptions) {
+    super(props);
+    this._stepper = props.stepper;
+    this._onDebug = props.onDebug;
+    this._stepper.stateChanged.connect(this.update, this);
+  }
+
+  dispose(): void {
+    super.dispose();
+    this._stepper.stateChanged.disconnect(this.update, this);
+  }
+
+  render(): JSX.Element {
+    const state = this._stepper.state;
+    return (
+      <>
+        <ToolbarButtonComponent
+          icon={bugIcon}
+          tooltip="Run Code Step by Step"
+          enabled={state === 'idle'}
+          onClick={this._onDebug}
+        />
+        <ToolbarButtonComponent
+          icon={caretRightIcon}
+          tooltip="Run the Next Block"
+          enabled={state === 'paused'}
+          onClick={() => this._stepper.step()}
+        />
+        {state === 'running' ? (
+          <ToolbarButtonComponent
+            icon={stopIcon}
+            tooltip="Pause Before the Next Block"
+            onClick={() => this._stepper.pause()}
+          />
+        ) : (
+          <ToolbarButtonComponent
+            icon={fastForwardIcon}
+            tooltip="Resume the Execution"
+            enabled={state === 'paused'}
+            onClick={() => this._stepper.resume()}
+          />
+        )}
+      </>
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { ToolbarButtonComponent } from '@jupyterlab/apputils';
+import { stopIcon } from '@jupyterlab/ui-components';
+
+import React from 'react';
+
+import { BlocklyLayout } from './../layout';
+import { BlocklyButton } from './utils';
+
+export namespace ExecutionStatus {
+  export interface IOptions extends ToolbarButtonComponent.IProps {
+    layout: BlocklyLayout;
+  }
+}
+
+/**
+ * The button interrupting the running code, followed by the state of the
+ * last run: its execution count and its duration.
+ */
+export class ExecutionStatus extends BlocklyButton {
+  private _blocklyLayout: BlocklyLayout;
+
+  constructor(props: ExecutionStatus.IOptions) {
+    super(props);
+    this._blocklyLayout = props.layout;
+    this._blocklyLayout.runStateChanged.connect(this.update, this);
+  }
+
+  dispose(): void {
+    super.dispose();
+    this._blocklyLayout.runStateChanged.disconnect(this.update, this);
+  }
+
+  render(): JSX.Element {
+    const { running, executionCount, duration } = this._blocklyLayout.runState;
+    let status = '';
+    if (running) {
+      status = 'Running…';
+    } else if (duration !== null) {
+      status = `[${executionCount ?? ' '}] ${Private.formatDuration(duration)}`;
+    }
+    return (
+      <>
+        <ToolbarButtonComponent
+          icon={stopIcon}
+          tooltip="Interrupt the execution"
+          enabled={running}
+          onClick={() => void this._blocklyLayout.stop()}
+        />
+        <span className="jp-blockly-executionStatus">{status}</span>
+      </>
+    );
+  }
+}
+
+namespace Private {
+  /**
+   * Format a duration in milliseconds.
+   */
+  export function formatDuration(duration: number): string {
+    if (duration < 1000) {
+      return `${Math.round(duration)} ms`;
+    }
+    if (duration < 60000) {
+      return `${(duration / 1000).toFixed(1)} s`;
+    }
+    const minutes = Math.floor(duration / 60000);
+    const seconds = Math.round((duration % 60000) / 1000);
+    return `${minutes} min ${seconds} s`;
+  }
+}
@@ -1,3 +1,8 @@
 export * from './toolbox';
 export * from './generator';
+export * from './language';
+export * from './runmode';
+export * from './livemode';
+export * from './debug';
+export * from './execution';
 export * from './utils';
@@ -0,0 +1,51 @@
+import { ToolbarButtonComponent } from '@jupyterlab/apputils';
+import { HTMLSelect } from '@jupyterlab/ui-components';
+
+import React from 'react';
+
+import { BlocklyManager } from './../manager';
+import { BlocklyButton } from './utils';
+
+export namespace SelectLanguage {
+  export interface IOptions extends ToolbarButtonComponent.IProps {
+    manager: BlocklyManager;
+  }
+}
+
+export class SelectLanguage extends BlocklyButton {
+  private _manager: BlocklyManager;
+
+  constructor(props: SelectLanguage.IOptions) {
+    super(props);
+    this._manager = props.manager;
+    this._manager.changed.connect(this.update, this);
+  }
+
+  dispose(): void {
+    super.dispose();
+    this._manager.changed.disconnect(this.update, this);
+  }
+
+  private handleChange = (
+    event: React.ChangeEvent<HTMLSelectElement>
+  ): void => {
+    // The empty value follows the language of the kernel
+    this._manager.setLanguage(event.target.value || null);
+    this.update();
+  };
+
+  render(): JSX.Element {
+    const languages = [
+      { label: 'Kernel language', value: '' },
+      ...this._manager.listLanguages()
+    ];
+
+    return (
+      <HTMLSelect
+        onChange={this.handleChange}
+        value={this._manager.getLanguage() ?? ''}
+        options={languages}
+      />
+    );
+  }
+}
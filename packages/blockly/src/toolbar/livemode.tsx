@@ -0,0 +1,49 @@
+import { ToolbarButtonComponent } from '@jupyterlab/apputils';
+import { refreshIcon } from '@jupyterlab/ui-components';
+
+import React from 'react';
+
+import { BlocklyManager } from './../manager';
+import { BlocklyButton } from './utils';
+
+export namespace ToggleLiveMode {
+  export interface IOptions extends ToolbarButtonComponent.IProps {
+    manager: BlocklyManager;
+    onToggle: () => void;
+  }
+}
+
+export class ToggleLiveMode extends BlocklyButton {
+  private _manager: BlocklyManager;
+  private _onToggle: () => void;
+
+  constructor(props: ToggleLiveMode.IOptions) {
+    super(props);
+    this._manager = props.manager;
+    this._onToggle = props.onToggle;
+    this._manager.changed.connect(this.update, this);
+  }
+
+  dispose(): void {
+    super.dispose();
+    this._manager.changed.disconnect(this.update, this);
+  }
+
+  private handleClick = (): void => {
+    this._manager.setLiveMode(!this._manager.getLiveMode());
+    this._onToggle();
+  };
+
+  render(): JSX.Element {
+    return (
+      <ToolbarButtonComponent
+        icon={refreshIcon}
+        label="Live"
+        tooltip="Run the code after each change of the blocks"
+        pressedTooltip="Stop running the code after each change of the blocks"
+        pressed={this._manager.getLiveMode()}
+        onClick={this.handleClick}
+      />
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { ToolbarButtonComponent } from '@jupyterlab/apputils';
+import { HTMLSelect } from '@jupyterlab/ui-components';
+
+import React from 'react';
+
+import { BlocklyManager } from './../manager';
+import { BlocklyButton } from './utils';
+
+export namespace SelectRunMode {
+  export interface IOptions extends ToolbarButtonComponent.IProps {
+    manager: BlocklyManager;
+  }
+}
+
+export class SelectRunMode extends BlocklyButton {
+  private _manager: BlocklyManager;
+
+  constructor(props: SelectRunMode.IOptions) {
+    super(props);
+    this._manager = props.manager;
+    this._manager.changed.connect(this.update, this);
+  }
+
+  dispose(): void {
+    super.dispose();
+    this._manager.changed.disconnect(this.update, this);
+  }
+
+  private handleChange = (
+    event: React.ChangeEvent<HTMLSelectElement>
+  ): void => {
+    this._manager.setRunMode(event.target.value as BlocklyManager.RunMode);
+    this.update();
+  };
+
+  render(): JSX.Element {
+    return (
+      <HTMLSelect
+        onChange={this.handleChange}
+        value={this._manager.getRunMode()}
+        options={[
+          { label: 'Whole workspace', value: 'workspace' },
+          { label: 'Per block stack', value: 'stacks' }
+        ]}
+      />
+    );
+  }
+}
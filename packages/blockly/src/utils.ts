@@ -374,3 +374,25 @@ const jupyterlab_theme = Blockly.Theme.defineTheme('jupyterlab', {
 });
 
 export const THEME: Blockly.Theme = jupyterlab_theme;
+
+/**
+ * Return the extra code of the blocks, defined in their toplevel_init property.
+ *
+ * @param blocks The blocks in order.
+ */
+export function getToplevelInit(blocks: Blockly.Block[]): string {
+  // Initalize string which will return the extra code provided
+  // by the blocks, in the toplevel_init property.
+  let finalToplevelInit = '';
+
+  // For each block, check if theres is a toplevel_init,
+  // if there is, add it to the final string.
+  for (const block of blocks) {
+    if (Blockly.Blocks[block.type].toplevel_init) {
+      // Attach it to the final string
+      const string = Blockly.Blocks[block.type].toplevel_init;
+      finalToplevelInit = finalToplevelInit + string;
+    }
+  }
+  return finalToplevelInit;
+}
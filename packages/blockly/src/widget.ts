@@ -4,22 +4,30 @@ import {
   DocumentModel
 } from '@jupyterlab/docregistry';
 import { IRenderMimeRegistry } from '@jupyterlab/rendermime';
-import { runIcon } from '@jupyterlab/ui-components';
-import { showErrorMessage } from '@jupyterlab/apputils';
+import { clearIcon, runIcon } from '@jupyterlab/ui-components';
+import { showErrorMessage, Toolbar } from '@jupyterlab/apputils';
 
-import { PartialJSONObject } from '@lumino/coreutils';
-import { SplitPanel } from "@lumino/widgets";
+import * as nbformat from '@jupyterlab/nbformat';
+
+import { PartialJSONObject, PartialJSONValue } from '@lumino/coreutils';
+import { SplitPanel } from '@lumino/widgets';
 import { Signal } from '@lumino/signaling';
 
 import type Blockly from 'blockly';
 
+import { BlocklyFormat } from './format';
 import { BlocklyLayout } from './layout';
 import { BlocklyManager } from './manager';
 import {
   BlocklyButton,
+  DebugControls,
+  ExecutionStatus,
   SelectGenerator,
+  SelectLanguage,
+  SelectRunMode,
   SelectToolbox,
-  Spacer
+  Spacer,
+  ToggleLiveMode
 } from './toolbar';
 import { CodeCell } from '@jupyterlab/cells';
 import { IEditorFactoryService } from '@jupyterlab/codeeditor';
@@ -44,12 +52,52 @@ export class BlocklyEditor extends DocumentWidget<BlocklyPanel, DocumentModel> {
       tooltip: 'Run Code'
     });
     this.toolbar.addItem('run', button);
+    const layout = this.content.layout as BlocklyLayout;
+    this.toolbar.addItem(
+      'debug',
+      new DebugControls({
+        stepper: layout.stepper,
+        onDebug: () => layout.debug()
+      })
+    );
+    this.toolbar.addItem('status', new ExecutionStatus({ layout }));
+    this.toolbar.addItem(
+      'clearOutputs',
+      new BlocklyButton({
+        label: '',
+        icon: clearIcon,
+        onClick: () => {
+          layout.clearOutputs();
+          // The outputs are saved in the document
+          this.context.model.dirty = true;
+        },
+        tooltip: 'Clear the outputs'
+      })
+    );
     this.toolbar.addItem('spacer', new Spacer());
+    this.toolbar.addItem(
+      'runMode',
+      new SelectRunMode({
+        label: 'Run',
+        tooltip: 'Select how to run the code',
+        manager: options.manager
+      })
+    );
+    this.toolbar.addItem(
+      'liveMode',
+      new ToggleLiveMode({
+        manager: options.manager,
+        onToggle: () => {
+          // The live mode is saved in the document
+          this.context.model.dirty = true;
+        }
+      })
+    );
     this.toolbar.addItem(
       'toolbox',
       new SelectToolbox({
         label: 'Toolbox',
-        tooltip: 'Select tollbox',
+        tooltip: 'Select toolbox',
         manager: options.manager
       })
     );
@@ -61,6 +109,18 @@ export class BlocklyEditor extends DocumentWidget<BlocklyPanel, DocumentModel> {
         manager: options.manager
       })
     );
+    this.toolbar.addItem(
+      'language',
+      new SelectLanguage({
+        label: 'Language',
+        tooltip: 'Select the language of the generated code',
+        manager: options.manager
+      })
+    );
+    this.toolbar.addItem(
+      'kernelStatus',
+      Toolbar.createKernelStatusItem(this.context.sessionContext)
+    );
   }
 
   /**
@@ -87,6 +147,12 @@ export class BlocklyPanel extends SplitPanel {
   private _manager: BlocklyManager;
   private _rendermime: IRenderMimeRegistry;
 
+  /**
+   * Whether to clear the outputs before saving the document,
+   * otherwise they are saved in the file.
+   */
+  clearOutputsOnSave = false;
+
   /**
    * Construct a `BlocklyPanel`.
    *
@@ -115,6 +181,11 @@ export class BlocklyPanel extends SplitPanel {
     this._context.ready.then(() => this._load());
     // Connect to the save signal
     this._context.saveState.connect(this._onSave, this);
+    // Mark the document as dirty when editing the blocks
+    (this.layout as BlocklyLayout).workspaceChanged.connect(
+      this._onWorkspaceChanged,
+      this
+    );
   }
 
   /*
@@ -124,6 +195,13 @@ export class BlocklyPanel extends SplitPanel {
     return (this.layout as BlocklyLayout).cell;
   }
 
+  /*
+   * The manager of the document.
+   */
+  get manager(): BlocklyManager {
+    return this._manager;
+  }
+
   /*
    * The rendermime instance used in the code cell.
    */
@@ -142,67 +220,135 @@ export class BlocklyPanel extends SplitPanel {
     super.dispose();
   }
 
+  /**
+   * Convert the Blockly document into a notebook.
+   *
+   * The description becomes a markdown cell, the toplevel_init code of the
+   * blocks a setup cell and the generated code a code cell.
+   *
+   * @returns The content of the notebook.
+   */
+  toNotebook(): nbformat.INotebookContent {
+    const layout = this.layout as BlocklyLayout;
+    const cells: nbformat.ICell[] = [];
+
+    const description = this._manager.getDescription();
+    if (description) {
+      cells.push({
+        cell_type: 'markdown',
+        metadata: {},
+        source: description
+      });
+    }
+
+    const toplevelInit = layout.getBlocksToplevelInit();
+    if (toplevelInit) {
+      cells.push(Private.createCodeCell(toplevelInit));
+    }
+    cells.push(Private.createCodeCell(layout.getWorkspaceCode()));
+
+    // The code is generated in the language of the generator, which may
+    // not be the language of the selected kernel
+    const language = this._manager.language;
+    const metadata: nbformat.INotebookMetadata = {
+      language_info: { name: language }
+    };
+    const spec = this._manager.kernelSpec;
+    if (spec && this._manager.kernelLanguage === language) {
+      metadata.kernelspec = {
+        name: spec.name,
+        display_name: spec.display_name,
+        language: spec.language
+      };
+    }
+
+    return {
+      cells,
+      metadata,
+      nbformat: 4,
+      nbformat_minor: 4
+    };
+  }
+
   private _load(): void {
-    const fileContent = this._context.model.toJSON();
-    const fileFormat = fileContent['format'];
-    // Check if format is set or if we have legacy content
-    if (fileFormat === undefined && fileContent['blocks']) {
-      // Load legacy content
-      (this.layout as BlocklyLayout).workspace =
-        fileContent as any as Blockly.Workspace;
-      // Required for setting description to empty on legacy format
-      this._manager.setDescription(undefined);
-    } else if (fileFormat === 2) {
-      // Load the content from the "workspace" key
-      const workspace = fileContent['workspace'] as any as Blockly.Workspace;
-      (this.layout as BlocklyLayout).workspace = workspace;
-      const metadata = fileContent['metadata'];
-      if (metadata) {
-        let description = metadata['description'];
-        // Support defining descriptions as an array like a notebook markdown cell
-        if (Array.isArray(description)) {
-          description = description.join('');
-        }
-        this._manager.setDescription(description);
-        if (metadata['toolbox']) {
-          const toolbox = metadata['toolbox'];
-          if (
-            this._manager.listToolboxes().find(value => value.value === toolbox)
-          ) {
-            this._manager.setToolbox(metadata['toolbox']);
-          } else {
-            // Unknown toolbox
-            showErrorMessage(
-              'Unknown toolbox',
-              `The toolbox '${toolbox}' is not available. Using default toolbox.`
-            );
-          }
-        }
-        if (metadata['kernel'] && metadata['kernel'] !== 'No kernel') {
-          const kernel = metadata['kernel'];
-          if (
-            this._manager.listKernels().find(value => value.value === kernel)
-          ) {
-            this._manager.selectKernel(metadata['kernel']);
-          } else {
-            // Unknown kernel
-            console.warn(`Unknown kernel in blockly file: ${kernel}`);
-          }
-        }
-        if (metadata['allowed_blocks']) {
-          this._manager.setAllowedBlocks(metadata['allowed_blocks']);
-        }
-      } else {
-        // Required for setting description to empty
-        this._manager.setDescription(undefined);
-      }
-    } else {
-      // Unsupported format
+    let fileContent: BlocklyFormat.Content;
+    try {
+      // Upgrade the files of the previous formats
+      fileContent = BlocklyFormat.migrate(
+        (this._context.model.toJSON() as BlocklyFormat.Content) ??
+          BlocklyFormat.createEmpty()
+      );
+    } catch (reason) {
       showErrorMessage(
-        'Unsupported file format',
-        `The file format '${fileFormat}' is not supported by the Blockly editor.`
+        reason instanceof BlocklyFormat.ValidationError
+          ? 'Invalid file content'
+          : 'Unsupported file format',
+        `The file cannot be opened by the Blockly editor.\n${reason.message}`
       );
+      return;
+    }
+
+    // Load the content from the "workspace" key
+    const workspace = fileContent['workspace'] as any as Blockly.Workspace;
+    (this.layout as BlocklyLayout).workspace = workspace;
+    const metadata = fileContent['metadata'];
+    this._manager.setDescription(metadata['description']);
+    if (metadata['toolbox']) {
+      const toolbox = metadata['toolbox'];
+      if (
+        this._manager.listToolboxes().find(value => value.value === toolbox)
+      ) {
+        this._manager.setToolbox(metadata['toolbox']);
+      } else {
+        // Unknown toolbox
+        showErrorMessage(
+          'Unknown toolbox',
+          `The toolbox '${toolbox}' is not available. Using default toolbox.`
+        );
+      }
+    }
+    if (metadata['kernel']) {
+      const kernel = metadata['kernel'];
+      if (this._manager.listKernels().find(value => value.value === kernel)) {
+        this._manager.selectKernel(metadata['kernel']);
+      } else {
+        // Unknown kernel
+        console.warn(`Unknown kernel in blockly file: ${kernel}`);
+      }
+    }
+    if (metadata['allowed_blocks']) {
+      this._manager.setAllowedBlocks(metadata['allowed_blocks']);
+    }
+    if (metadata['run_mode']) {
+      this._manager.setRunMode(metadata['run_mode']);
+    }
+    if (metadata['language']) {
+      this._manager.setLanguage(metadata['language']);
+    }
+    if (metadata['locked_blocks']) {
+      (this.layout as BlocklyLayout).setLockedBlocks(metadata['locked_blocks']);
+    }
+    this._manager.setReadOnly(metadata['read_only'] ?? false);
+    this._manager.setLiveMode(metadata['live_mode'] ?? false);
+    this._manager.setTests(metadata['tests'] ?? []);
+    if (fileContent['outputs']) {
+      (this.layout as BlocklyLayout).setOutputs(fileContent['outputs']);
     }
+    this._bindSharedModel();
+  }
+
+  /**
+   * Share the workspace through the shared model of the document.
+   */
+  private _bindSharedModel(): void {
+    (this.layout as BlocklyLayout).bindSharedModel(
+      this._context.model.sharedModel,
+      this._context.contentsModel?.last_modified ?? null
+    );
+  }
+
+  private _onWorkspaceChanged(): void {
+    this._context.model.dirty = true;
   }
 
   private _onSave(
@@ -210,18 +356,73 @@ export class BlocklyPanel extends SplitPanel {
     state: DocumentRegistry.SaveState
   ): void {
     if (state === 'started') {
-      const workspace = (this.layout as BlocklyLayout).workspace;
+      const layout = this.layout as BlocklyLayout;
+      const workspace = layout.workspace;
+      const kernel = this._manager.kernel;
+      if (this.clearOutputsOnSave) {
+        layout.clearOutputs();
+      }
+      const outputs = layout.getOutputs();
+      const lockedBlocks = layout.getLockedBlocks();
+      const tests = this._manager.getTests();
       const fileContent: PartialJSONObject = {
-        format: 2,
+        format: BlocklyFormat.currentVersion(),
         workspace: workspace as any,
         metadata: {
           description: this._manager.getDescription(),
           toolbox: this._manager.getToolbox(),
-          allowed_blocks: this._manager.getAllowedBlocks(),
-          kernel: this._manager.kernel
-        }
+          allowed_blocks: Private.getAllowedBlocks(this._manager),
+          kernel: kernel === 'No kernel' ? null : kernel,
+          run_mode: this._manager.getRunMode(),
+          language: this._manager.getLanguage(),
+          read_only: this._manager.getReadOnly() || undefined,
+          live_mode: this._manager.getLiveMode() || undefined,
+          locked_blocks: Object.keys(lockedBlocks).length
+            ? (lockedBlocks as PartialJSONObject)
+            : undefined,
+          tests: tests.length ? tests : undefined
+        },
+        // Only save the outputs when there are some
+        outputs:
+          outputs.workspace.length || Object.keys(outputs.stacks).length
+            ? outputs
+            : undefined
       };
       this._context.model.fromJSON(fileContent);
+    } else if (state === 'completed') {
+      // The shared workspace is saved in this version of the file
+      (this.layout as BlocklyLayout).setLastModified(
+        this._context.contentsModel?.last_modified ?? null
+      );
+    }
+  }
+}
+
+namespace Private {
+  /**
+   * Create a notebook code cell with the given source.
+   */
+  export function createCodeCell(source: string): nbformat.ICodeCell {
+    return {
+      cell_type: 'code',
+      execution_count: null,
+      metadata: {},
+      outputs: [],
+      source
+    };
+  }
+
+  /**
+   * Get the allowed blocks to save in the metadata: a list when none of
+   * them is limited, to keep the files readable by the previous versions.
+   */
+  export function getAllowedBlocks(
+    manager: BlocklyManager
+  ): PartialJSONValue | undefined {
+    const limits = manager.getBlockLimits();
+    if (limits && Object.keys(manager.getMaxInstances()).length) {
+      return limits;
     }
+    return manager.getAllowedBlocks();
   }
 }